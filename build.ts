@@ -15,6 +15,23 @@ if (!result.success) {
 	process.exit(1);
 }
 
+// CLI entry point (ESM only)
+const binResult = await Bun.build({
+	entrypoints: ["./src/bin.ts"],
+	outdir: "./dist",
+	target: "node",
+	format: "esm",
+	external: ["@tanstack/*"],
+	minify: false,
+	naming: "[dir]/[name].mjs",
+});
+
+if (!binResult.success) {
+	for (const _message of binResult.logs) {
+	}
+	process.exit(1);
+}
+
 // Also build CJS version
 const cjsResult = await Bun.build({
 	entrypoints: ["./src/index.ts"],
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * start-secure executable
+ */
+
+import { runCli } from "./cli";
+
+process.exitCode = await runCli(process.argv.slice(2));
@@ -0,0 +1,360 @@
+/**
+ * start-secure command line interface
+ * Prints, lints, and diffs the policy built from an app's CSP rules without starting the app
+ */
+
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync } from "node:fs";
+import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { CspBudgetExceededError } from "./internal/budget";
+import { evaluatePolicy } from "./internal/evaluator";
+import { compileSecurityHeadersTemplate } from "./internal/generator";
+import { parseCspHeader } from "./internal/parser";
+import type { CspEnvironment, CspFindingSeverity, CspRule, SecurityHeaders, SecurityOptions } from "./internal/types";
+import { CspValidationError } from "./internal/validation";
+
+/**
+ * Output streams and working directory for a CLI run
+ */
+export interface CliIo {
+	out: (text: string) => void;
+	err: (text: string) => void;
+	cwd: string;
+}
+
+/**
+ * Rules and options loaded from a config file
+ */
+interface LoadedConfig {
+	rules: CspRule[];
+	options: SecurityOptions;
+}
+
+// Config files tried (in order) when none is given
+const DEFAULT_CONFIG_FILES = [
+	"start-secure.config.json",
+	"src/config/cspRules.ts",
+	"src/config/cspRules.js",
+	"src/config/cspRules.mjs",
+];
+
+const ENVIRONMENTS: readonly CspEnvironment[] = ["production", "staging", "preview", "development", "test"];
+const SEVERITIES: readonly CspFindingSeverity[] = ["high", "medium", "low", "info"];
+
+const USAGE = `Usage: start-secure <command> [config] [options]
+
+Commands:
+  print   Print the final policy
+  lint    Evaluate the policy; exits 1 on findings at or above --fail-on
+  diff    Compare policies between environments and/or git revisions
+
+Config:
+  A module exporting \`cspRules\` (or \`rules\`, or a default export) and optionally \`options\`,
+  or a JSON file holding a rule array or { "rules": [...], "options": {...} }.
+  Every command exits 1 if the policy is larger than \`options.headerBudget\`, or invalid with \`options.strict\`.
+  Defaults to the first of: ${DEFAULT_CONFIG_FILES.join(", ")}
+
+Options:
+  --env <name>        production (default), staging, preview, development, or test
+  --headers           print: all security headers, not just the CSP
+  --pretty            print: one directive per line
+  --fail-on <level>   lint: high (default), medium, low, or info
+  --from-env <name>   diff: environment of the old policy (defaults to --env)
+  --to-env <name>     diff: environment of the new policy (defaults to --env)
+  --from-rev <rev>    diff: git revision of the old config (defaults to the working tree)
+  --to-rev <rev>      diff: git revision of the new config (defaults to the working tree)
+  --exit-code         diff: exit 1 when the policies differ
+  -h, --help          Show this help
+`;
+
+/**
+ * Error shown to the user without a stack trace (exit code 2)
+ */
+class CliUsageError extends Error {}
+
+/**
+ * Pick rules and options out of a loaded module or JSON value
+ */
+function readConfig(value: unknown, file: string): LoadedConfig {
+	const source = (value ?? {}) as Record<string, unknown>;
+	const fallback = (source.default ?? {}) as Record<string, unknown>;
+	const candidate = Array.isArray(value)
+		? value
+		: (source.cspRules ??
+			source.rules ??
+			(Array.isArray(source.default) ? source.default : (fallback.cspRules ?? fallback.rules)));
+
+	if (!Array.isArray(candidate)) {
+		throw new CliUsageError(
+			`${file} does not export CSP rules (expected \`cspRules\`, \`rules\`, or a default array).`,
+		);
+	}
+
+	const options = (Array.isArray(value) ? undefined : (source.options ?? fallback.options)) ?? {};
+	return { rules: candidate as CspRule[], options: options as SecurityOptions };
+}
+
+/**
+ * Load a config from the working tree or, with `rev`, from a git revision
+ * A module config is loaded from a checkout of the whole revision, so the files it imports match it.
+ */
+async function loadConfig(file: string, cwd: string, rev?: string): Promise<LoadedConfig> {
+	if (extname(file) === ".json") {
+		const text = rev ? gitShow(file, rev) : readFileSync(file, "utf8");
+		return readConfig(JSON.parse(text), file);
+	}
+
+	if (!rev) {
+		return readConfig(await importModule(file), file);
+	}
+
+	const checkout = checkoutRevision(file, cwd, rev);
+	try {
+		return readConfig(await importModule(checkout.file), `${file}@${rev}`);
+	} finally {
+		checkout.remove();
+	}
+}
+
+/**
+ * Check out a git revision of the config's repository into a temporary worktree
+ * It lives under `node_modules/.cache/start-secure` (gitignored) so package imports still resolve.
+ *
+ * @returns The config's path in the worktree, and a function that removes the worktree
+ */
+function checkoutRevision(file: string, cwd: string, rev: string): { file: string; remove: () => void } {
+	const git = (args: string[]) =>
+		execFileSync("git", args, { cwd: dirname(file), encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+	const cacheDirectory = join(cwd, "node_modules", ".cache", "start-secure");
+	mkdirSync(cacheDirectory, { recursive: true });
+	const directory = mkdtempSync(join(cacheDirectory, "rev-"));
+	const remove = () => {
+		try {
+			git(["worktree", "remove", "--force", directory]);
+		} catch {
+			// Not added, or already gone: removing the directory below is enough
+		}
+		rmSync(directory, { recursive: true, force: true });
+	};
+
+	try {
+		const root = realpathSync(git(["rev-parse", "--show-toplevel"]));
+		git(["worktree", "add", "--detach", "--quiet", directory, rev]);
+		return { file: join(directory, relative(root, realpathSync(file))), remove };
+	} catch {
+		remove();
+		throw new CliUsageError(`Could not check out ${file} at git revision "${rev}".`);
+	}
+}
+
+/**
+ * Import a config module, explaining how to load TypeScript if the runtime can't
+ */
+async function importModule(file: string): Promise<unknown> {
+	try {
+		return await import(pathToFileURL(file).href);
+	} catch (error) {
+		const hint = /\.[cm]?ts$/.test(file)
+			? " TypeScript configs need a runtime that can import .ts files (Bun, Node 22.18+, or tsx)."
+			: "";
+		throw new CliUsageError(`Could not load ${file}: ${error instanceof Error ? error.message : error}.${hint}`);
+	}
+}
+
+/**
+ * Read a file's contents at a git revision
+ */
+function gitShow(file: string, rev: string): string {
+	try {
+		return execFileSync("git", ["show", `${rev}:./${basename(file)}`], {
+			cwd: dirname(file),
+			encoding: "utf8",
+			stdio: ["ignore", "pipe", "pipe"],
+		});
+	} catch {
+		throw new CliUsageError(`Could not read ${file} at git revision "${rev}".`);
+	}
+}
+
+/**
+ * Resolve the config file argument, or find a default one
+ */
+function resolveConfigFile(cwd: string, file?: string): string {
+	if (file) {
+		const path = resolve(cwd, file);
+		if (!existsSync(path)) {
+			throw new CliUsageError(`Config file not found: ${file}`);
+		}
+		return path;
+	}
+
+	const found = DEFAULT_CONFIG_FILES.map((candidate) => resolve(cwd, candidate)).find((path) => existsSync(path));
+	if (!found) {
+		throw new CliUsageError(`No config file given and none of ${DEFAULT_CONFIG_FILES.join(", ")} exist.`);
+	}
+	return found;
+}
+
+/**
+ * Check an environment name
+ */
+function parseEnvironment(env: string): CspEnvironment {
+	const environment = ENVIRONMENTS.find((name) => name === env);
+	if (!environment) {
+		throw new CliUsageError(`Unknown environment "${env}". Use ${ENVIRONMENTS.join(", ")}.`);
+	}
+	return environment;
+}
+
+/**
+ * Build the headers the middleware would send, with a literal `{nonce}` placeholder
+ */
+function buildHeaders(config: LoadedConfig, env: string): SecurityHeaders {
+	return compileSecurityHeadersTemplate(config.rules, { ...config.options, env: parseEnvironment(env) })("{nonce}");
+}
+
+/**
+ * Describe the source sets that differ between two policies
+ */
+function diffPolicies(from: string, to: string): string[] {
+	const before = parseCspHeader(from);
+	const after = parseCspHeader(to);
+	const lines: string[] = [];
+
+	for (const directive of new Set([...Object.keys(before), ...Object.keys(after)])) {
+		const oldSources = before[directive];
+		const newSources = after[directive];
+		if (!oldSources || !newSources) {
+			lines.push(`${oldSources ? "-" : "+"} ${directive} ${(oldSources ?? newSources ?? []).join(" ")}`.trimEnd());
+			continue;
+		}
+
+		const removed = oldSources.filter((source) => !newSources.includes(source));
+		const added = newSources.filter((source) => !oldSources.includes(source));
+		if (removed.length === 0 && added.length === 0) continue;
+
+		lines.push(`  ${directive}`);
+		lines.push(...removed.map((source) => `    - ${source}`), ...added.map((source) => `    + ${source}`));
+	}
+
+	return lines;
+}
+
+/**
+ * Run the CLI
+ *
+ * @param args - Arguments after the executable (e.g. `process.argv.slice(2)`)
+ * @param io - Output streams and working directory (defaults to the process)
+ * @returns Exit code: 0 on success, 1 on failing lint/diff checks, 2 on usage or config errors
+ *
+ * @example
+ * ```sh
+ * start-secure print --env production --pretty
+ * start-secure lint src/config/cspRules.ts --fail-on medium
+ * start-secure diff --from-rev main
+ * start-secure diff --from-env development --to-env production
+ * ```
+ */
+export async function runCli(
+	args: readonly string[],
+	io: CliIo = {
+		out: (text) => process.stdout.write(text),
+		err: (text) => process.stderr.write(text),
+		cwd: process.cwd(),
+	},
+): Promise<number> {
+	try {
+		const { values, positionals } = parseArgs({
+			args: [...args],
+			allowPositionals: true,
+			options: {
+				env: { type: "string", default: "production" },
+				headers: { type: "boolean", default: false },
+				pretty: { type: "boolean", default: false },
+				"fail-on": { type: "string", default: "high" },
+				"from-env": { type: "string" },
+				"to-env": { type: "string" },
+				"from-rev": { type: "string" },
+				"to-rev": { type: "string" },
+				"exit-code": { type: "boolean", default: false },
+				help: { type: "boolean", short: "h", default: false },
+			},
+		});
+
+		const [command, file] = positionals;
+		if (values.help || !command) {
+			io.out(USAGE);
+			return values.help ? 0 : 2;
+		}
+
+		const configFile = resolveConfigFile(io.cwd, file);
+
+		switch (command) {
+			case "print": {
+				const headers = buildHeaders(await loadConfig(configFile, io.cwd), values.env);
+				const csp = headers["Content-Security-Policy"];
+				const policy = values.pretty ? csp.split("; ").join(";\n") : csp;
+				if (values.headers) {
+					const others = Object.entries(headers).filter(([name]) => name !== "Content-Security-Policy");
+					io.out(
+						[`Content-Security-Policy: ${policy}`, ...others.map(([name, value]) => `${name}: ${value}`)].join("\n"),
+					);
+				} else {
+					io.out(policy);
+				}
+				io.out("\n");
+				return 0;
+			}
+
+			case "lint": {
+				const threshold = SEVERITIES.indexOf(values["fail-on"] as CspFindingSeverity);
+				if (threshold === -1) {
+					throw new CliUsageError(`Unknown --fail-on level "${values["fail-on"]}". Use ${SEVERITIES.join(", ")}.`);
+				}
+
+				const csp = buildHeaders(await loadConfig(configFile, io.cwd), values.env)["Content-Security-Policy"];
+				const findings = evaluatePolicy(csp);
+				for (const finding of findings) {
+					io.out(`${finding.severity.toUpperCase().padEnd(6)} ${finding.directive}: ${finding.message}\n`);
+				}
+
+				const failing = findings.filter((finding) => SEVERITIES.indexOf(finding.severity) <= threshold);
+				io.out(
+					`${findings.length} finding${findings.length === 1 ? "" : "s"} (${values.env}); ${failing.length} at or above ${values["fail-on"]}\n`,
+				);
+				return failing.length > 0 ? 1 : 0;
+			}
+
+			case "diff": {
+				const fromEnv = values["from-env"] ?? values.env;
+				const toEnv = values["to-env"] ?? values.env;
+				const fromRev = values["from-rev"];
+				const toRev = values["to-rev"];
+
+				const from = buildHeaders(await loadConfig(configFile, io.cwd, fromRev), fromEnv)["Content-Security-Policy"];
+				const to = buildHeaders(await loadConfig(configFile, io.cwd, toRev), toEnv)["Content-Security-Policy"];
+				const lines = diffPolicies(from, to);
+
+				io.out(`--- ${fromRev ?? "working tree"} (${fromEnv})\n+++ ${toRev ?? "working tree"} (${toEnv})\n`);
+				io.out(lines.length > 0 ? `${lines.join("\n")}\n` : "No policy changes\n");
+				return values["exit-code"] && lines.length > 0 ? 1 : 0;
+			}
+
+			default:
+				throw new CliUsageError(`Unknown command "${command}".\n\n${USAGE}`);
+		}
+	} catch (error) {
+		if (error instanceof CliUsageError || (error instanceof TypeError && "code" in error)) {
+			io.err(`start-secure: ${error.message}\n`);
+			return 2;
+		}
+		// An over-budget or (in strict mode) invalid policy is a failing check, like a lint finding
+		if (error instanceof CspBudgetExceededError || error instanceof CspValidationError) {
+			io.err(`${error.message}\n`);
+			return 1;
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,109 @@
+/**
+ * Vite dev-server integration
+ * Derives the dev-only CSP origins from Vite's server config so HMR isn't blocked in containers and remote environments
+ */
+
+import { DEV_SERVER_ENV } from "./internal/dev-server";
+import type { DevServerOptions } from "./internal/types";
+
+/**
+ * The parts of Vite's `server` config used to locate the HMR WebSocket
+ */
+export interface ViteServerConfigLike {
+	host?: string | boolean | undefined;
+	port?: number | undefined;
+	https?: unknown;
+	hmr?:
+		| boolean
+		| {
+				host?: string | undefined;
+				port?: number | undefined;
+				clientPort?: number | undefined;
+				protocol?: string | undefined;
+		  }
+		| undefined;
+}
+
+/**
+ * Options added to what is derived from Vite
+ */
+export type ViteDevServerOptions = Pick<DevServerOptions, "origins" | "remote">;
+
+// Bind-all addresses don't tell us which hostname the browser uses
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::", "true"]);
+
+/**
+ * Derive dev-server options from Vite's `server` config
+ *
+ * Mirrors how the Vite client connects: `hmr.host`, `hmr.clientPort`, and `hmr.protocol` win;
+ * otherwise the server host and port are used (localhost and 127.0.0.1 when bound to all interfaces).
+ *
+ * @param server - Vite `server` config (resolved or user config)
+ * @param options - Extra dev-only origins and remote-environment detection
+ * @returns Options for `SecurityOptions.devServer`
+ *
+ * @example
+ * ```typescript
+ * createCspMiddleware({
+ *   rules: cspRules,
+ *   options: {
+ *     devServer: devServerFromVite({ hmr: { host: 'app.docker', clientPort: 24678 } }, {
+ *       origins: ['http://localhost:4000'],
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+export function devServerFromVite(
+	server: ViteServerConfigLike = {},
+	options: ViteDevServerOptions = {},
+): DevServerOptions {
+	const { hmr = true } = server;
+	if (hmr === false) {
+		return { ...options, hmr: false };
+	}
+
+	const hmrOptions = typeof hmr === "object" ? hmr : {};
+	const serverHost = typeof server.host === "string" && !WILDCARD_HOSTS.has(server.host) ? server.host : undefined;
+	const protocol = hmrOptions.protocol ?? (server.https ? "wss" : undefined);
+	const port = hmrOptions.port ?? server.port;
+
+	return {
+		...options,
+		hmr: {
+			host: hmrOptions.host ?? serverHost ?? ["localhost", "127.0.0.1"],
+			...(port !== undefined ? { port } : {}),
+			...(hmrOptions.clientPort !== undefined ? { clientPort: hmrOptions.clientPort } : {}),
+			...(protocol === "ws" || protocol === "wss" ? { protocol } : {}),
+		},
+	};
+}
+
+/**
+ * Vite plugin that hands the dev server's HMR settings to the CSP middleware
+ *
+ * Runs only for `vite dev`. The settings are published through an environment variable
+ * read by the middleware (and legacy handler) when `options.devServer` isn't set.
+ *
+ * @param options - Extra dev-only origins and remote-environment detection
+ * @returns Vite plugin
+ *
+ * @example
+ * ```typescript
+ * // vite.config.ts
+ * import { startSecureDevServer } from '@enalmada/start-secure';
+ *
+ * export default defineConfig({
+ *   plugins: [tanstackStart(), startSecureDevServer({ origins: ['http://localhost:4000'] })],
+ * });
+ * ```
+ */
+export function startSecureDevServer(options: ViteDevServerOptions = {}) {
+	return {
+		name: "start-secure-dev-server",
+		apply: "serve" as const,
+		configResolved(config: { server: ViteServerConfigLike }) {
+			process.env[DEV_SERVER_ENV] = JSON.stringify(devServerFromVite(config.server, options));
+		},
+	};
+}
@@ -3,8 +3,12 @@
  * Provides middleware wrapper for applying security headers
  */
 
-import { generateSecurityHeaders } from "./internal/generator";
-import type { CspRule, SecurityOptions } from "./internal/types";
+import { compileSecurityHeadersTemplate, generateSecurityHeaders } from "./internal/generator";
+import { shouldSendHsts } from "./internal/hsts";
+import { createNonceInjectionStream, type NonceInjectionOptions } from "./internal/nonce-injection";
+import { applyResponseKindHeaders, classifyResponse } from "./internal/response-kinds";
+import type { CspRule, SecurityHeaders, SecurityOptions } from "./internal/types";
+import { generateNonce } from "./nonce";
 
 /**
  * Configuration for TanStack Start security handler
@@ -12,6 +16,46 @@ import type { CspRule, SecurityOptions } from "./internal/types";
 export interface StartSecureConfig {
 	rules?: CspRule[];
 	options?: SecurityOptions;
+	/**
+	 * Generate a fresh nonce for every request (optional, defaults to true)
+	 * Implied by `nonceGenerator`. Setting the deprecated static `options.nonce` turns it off unless it
+	 * is set explicitly, and logs a warning; false without `options.nonce` sends policies without a nonce.
+	 */
+	perRequestNonce?: boolean;
+	/** Custom per-request nonce generator (optional, defaults to crypto-random) */
+	nonceGenerator?: () => string;
+	/**
+	 * Add the nonce to `<script>`, `<style>`, and script preload tags in HTML responses (optional)
+	 * The body is rewritten as it streams; compressed (`Content-Encoding`) responses are left alone.
+	 * Only the head is rewritten by default: with `scope: "document"`, tags injected into the body
+	 * through an HTML-injection bug get the nonce too, so never combine that with untrusted HTML.
+	 * Requires a per-request nonce or `options.nonce`.
+	 */
+	injectNonce?: boolean | NonceInjectionOptions;
+}
+
+/**
+ * Request-scoped values passed to the wrapped handler
+ */
+export interface SecureHandlerContext {
+	/** Nonce used in this response's CSP (undefined without a nonce) */
+	nonce: string | undefined;
+}
+
+// Nonce for each in-flight request, for getRequestNonce()
+const requestNonces = new WeakMap<Request, string>();
+
+/**
+ * Get the nonce createSecureHandler assigned to a request
+ *
+ * Useful where the wrapped handler's second argument isn't reachable
+ * (e.g. deep inside a framework's request pipeline).
+ *
+ * @param request - The request passed to the wrapped handler
+ * @returns The request's nonce, or undefined if it has none
+ */
+export function getRequestNonce(request: Request): string | undefined {
+	return requestNonces.get(request);
 }
 
 /**
@@ -40,29 +84,84 @@ export interface StartSecureConfig {
  * ```
  */
 export function createSecureHandler(config: StartSecureConfig = {}) {
-	const { rules = [], options = {} } = config;
+	const { rules = [], options = {}, injectNonce = false, perRequestNonce, nonceGenerator } = config;
+	const injectionOptions = typeof injectNonce === "object" ? injectNonce : {};
+	// Per-request by default; a static options.nonce is only used as the deprecated fallback
+	const usePerRequestNonce = nonceGenerator !== undefined || (perRequestNonce ?? options.nonce === undefined);
+	const createNonce = nonceGenerator ?? generateNonce;
+	const responseKinds = options.responseKinds === true ? {} : options.responseKinds || undefined;
+
+	// A nonce reused across requests can be read from one page and replayed to inject scripts
+	if (options.nonce && !usePerRequestNonce) {
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn(
+			"[@enalmada/start-secure] options.nonce is reused for every request, which defeats nonce-based CSP. " +
+				"Remove it (per-request nonces are the default) and read the nonce from the handler's second argument. " +
+				"A static options.nonce is deprecated.",
+		);
+	}
+
+	if (injectNonce && !usePerRequestNonce && !options.nonce) {
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn("[@enalmada/start-secure] injectNonce has no effect without perRequestNonce or options.nonce.");
+	}
 
 	// Generate security headers once at middleware creation time (memoized)
-	const securityHeaders = generateSecurityHeaders(rules, options);
+	// With per-request nonces, compile a template so each request only substitutes its nonce
+	const renderHeaders = usePerRequestNonce ? compileSecurityHeadersTemplate(rules, options) : undefined;
+	const staticHeaders: SecurityHeaders | undefined = renderHeaders
+		? undefined
+		: generateSecurityHeaders(rules, options);
 
-	return function securityMiddleware(handler: (request: Request) => Promise<Response> | Response) {
+	return function securityMiddleware(
+		handler: (request: Request, context: SecureHandlerContext) => Promise<Response> | Response,
+	) {
 		return async function wrappedHandler(request: Request): Promise<Response> {
+			const nonce = usePerRequestNonce ? createNonce() : options.nonce;
+			if (nonce) {
+				requestNonces.set(request, nonce);
+			}
+
 			// Call the original handler
-			const response = await handler(request);
+			const response = await handler(request, { nonce });
+
+			// Stream HTML through the nonce injector (compressed bodies can't be rewritten as text)
+			const isHtml = response.headers.get("Content-Type")?.toLowerCase().includes("text/html") ?? false;
+			const encoding = response.headers.get("Content-Encoding")?.trim().toLowerCase();
+			const isEncoded = !!encoding && encoding !== "identity";
+			const body =
+				injectNonce && nonce && response.body && isHtml && !isEncoded
+					? response.body.pipeThrough(createNonceInjectionStream(nonce, injectionOptions))
+					: response.body;
 
 			// Create new response with security headers
 			// Clone response to avoid stream consumption issues
-			const newResponse = new Response(response.body, {
+			const newResponse = new Response(body, {
 				status: response.status,
 				statusText: response.statusText,
 				headers: response.headers,
 			});
+			// Injection changes the body length
+			if (body !== response.body) {
+				newResponse.headers.delete("Content-Length");
+			}
 
-			// Apply pre-generated security headers
-			for (const [key, value] of Object.entries(securityHeaders)) {
+			// Apply pre-generated (or nonce-rendered) security headers
+			const securityHeaders = renderHeaders && nonce ? renderHeaders(nonce) : staticHeaders;
+			for (const [key, value] of Object.entries(securityHeaders ?? {})) {
 				newResponse.headers.set(key, value);
 			}
 
+			// HSTS is ignored over plain HTTP and must not pin localhost/IP hosts
+			if (!shouldSendHsts(request, options)) {
+				newResponse.headers.delete("Strict-Transport-Security");
+			}
+
+			// API and asset responses only keep the headers that apply to them
+			if (responseKinds) {
+				applyResponseKindHeaders(newResponse.headers, classifyResponse(response, request, responseKinds));
+			}
+
 			return newResponse;
 		};
 	};
@@ -0,0 +1,40 @@
+/**
+ * Inline content hashing utilities
+ * Computes CSP hash sources for fixed inline scripts and styles
+ */
+
+/**
+ * Hash algorithms supported by CSP hash sources
+ */
+export type CspHashAlgorithm = "sha256" | "sha384" | "sha512";
+
+const WEB_CRYPTO_ALGORITHMS: Record<CspHashAlgorithm, string> = {
+	sha256: "SHA-256",
+	sha384: "SHA-384",
+	sha512: "SHA-512",
+};
+
+/**
+ * Compute the CSP hash source for inline script or style content
+ *
+ * Uses Web Crypto, so it works in Node, Bun, edge runtimes, and browsers.
+ * The content must match the element's text exactly (including whitespace).
+ *
+ * @param content - Exact text content of the inline `<script>` or `<style>` element
+ * @param algorithm - Hash algorithm (defaults to sha256)
+ * @returns Quoted hash source, e.g. `'sha256-…'`
+ *
+ * @example
+ * ```typescript
+ * const themeScriptHash = await hashInlineContent(themeScript);
+ *
+ * export const cspRules: CspRule[] = [
+ *   { description: 'theme-flash-prevention', hashes: { scripts: [themeScriptHash] } },
+ * ];
+ * ```
+ */
+export async function hashInlineContent(content: string, algorithm: CspHashAlgorithm = "sha256"): Promise<string> {
+	const digest = await crypto.subtle.digest(WEB_CRYPTO_ALGORITHMS[algorithm], new TextEncoder().encode(content));
+	const base64 = btoa(String.fromCharCode(...new Uint8Array(digest)));
+	return `'${algorithm}-${base64}'`;
+}
@@ -3,26 +3,99 @@
  * Security header management for TanStack Start applications
  */
 
+export type { ViteDevServerOptions, ViteServerConfigLike } from "./dev-server";
+// Dev-server origins (HMR, remote dev environments) from Vite
+export { devServerFromVite, startSecureDevServer } from "./dev-server";
 // Deprecated v0.1 API - Handler wrapper (kept for backward compatibility)
-export type { StartSecureConfig } from "./handler";
-export { createSecureHandler } from "./handler";
+export type { SecureHandlerContext, StartSecureConfig } from "./handler";
+export { createSecureHandler, getRequestNonce } from "./handler";
+// Hashes for inline content that can't carry a nonce
+export type { CspHashAlgorithm } from "./hash";
+export { hashInlineContent } from "./hash";
+// Header-size budget and policy optimization
+export { CspBudgetExceededError } from "./internal/budget";
+export { serializeCspDirectives } from "./internal/compiler";
 export { buildCspHeader } from "./internal/csp-builder";
 // Low-level utilities
 export {
 	defaultSecurityHeadersConfig,
 	validateNonce,
 } from "./internal/defaults";
-export { generateSecurityHeaders } from "./internal/generator";
+export { DEFAULT_ENVIRONMENT_PROFILES } from "./internal/environment";
+export { evaluateCspDirectives, evaluatePolicy } from "./internal/evaluator";
+export type { ExplainPolicyOptions } from "./internal/explain";
+export { explainPolicy } from "./internal/explain";
+export { generateSecurityHeaders, generateStaticSecurityHeaders } from "./internal/generator";
+export { buildHstsHeader, shouldSendHsts } from "./internal/hsts";
+export { validateCspRules } from "./internal/merger";
+export type { NonceInjectionOptions } from "./internal/nonce-injection";
+export { createNonceInjectionStream } from "./internal/nonce-injection";
+export { optimizeCspDirectives } from "./internal/optimizer";
+export { parseCspHeader, parseCspHeaderToRule } from "./internal/parser";
+export { buildPermissionsPolicy, DEFAULT_PERMISSIONS_POLICY } from "./internal/permissions-policy";
+export { parseCspReport } from "./internal/report-parser";
+export type { ResolvedReporting } from "./internal/reporting-endpoints";
+export { buildReportingHeaders } from "./internal/reporting-endpoints";
+export { classifyResponse } from "./internal/response-kinds";
+export { buildTrustedTypesRule } from "./internal/trusted-types";
 // Types
 export type {
+	CrossOriginOptions,
+	CrossOriginPreset,
+	CspBudgetEntry,
+	CspEnvironment,
+	CspEnvironmentProfile,
+	CspFinding,
+	CspFindingSeverity,
+	CspHashes,
+	CspMode,
+	CspOptimization,
+	CspPathMatcher,
+	CspRoutePolicy,
 	CspRule,
+	CspRuleContext,
+	CspStyleMode,
+	CspStyleOptions,
+	CspValidationIssue,
+	CspViolation,
+	DevServerOptions,
+	ExplainedSource,
+	HstsOptions,
+	NelOptions,
+	PermissionsPolicy,
+	PermissionsPolicyFeature,
+	PolicyAnalysisOptions,
+	PolicySourceOrigin,
+	ReportingOptions,
+	ResponseKind,
+	ResponseKindOptions,
 	SecurityHeaders,
 	SecurityHeadersConfig,
 	SecurityOptions,
+	TrustedTypesOptions,
 } from "./internal/types";
+// Grammar validation (strict mode)
+export { CspValidationError } from "./internal/validation";
 export type { CspMiddlewareConfig } from "./middleware";
 // New v0.2 API - Middleware pattern with per-request nonces
 export { createCspMiddleware } from "./middleware";
 // Note: createNonceGetter removed in v1.0.1 due to AsyncLocalStorage bug
 // Use direct context access instead (see docs/MIGRATION-1.0-to-1.0.1.md)
 export { generateNonce } from "./nonce";
+export type {
+	PostHogPresetOptions,
+	RecaptchaPresetOptions,
+	SentryPresetOptions,
+	YouTubePresetOptions,
+} from "./presets";
+// Rule presets for common third-party services
+export { cspPresets, cspPresetVersions } from "./presets";
+export type { CspReportHandlerConfig } from "./reporting";
+// Violation report endpoint (report-uri and Reporting API)
+export { createCspReportHandler } from "./reporting";
+export type { StaticHeadersFormat, StaticHeadersOptions } from "./static-export";
+// Header export for static hosts and reverse proxies
+export { exportStaticHeaders } from "./static-export";
+export type { DefaultTrustedTypesPolicyConfig, TrustedTypePolicyLike } from "./trusted-types";
+// Client-side Trusted Types default policy
+export { registerDefaultTrustedTypesPolicy } from "./trusted-types";
@@ -0,0 +1,113 @@
+/**
+ * CSP header-size budget
+ * Fails policy compilation when the header would exceed a configured size, with a report of what takes the space
+ */
+
+import type { PolicyProvenance } from "./merger";
+import type { CspBudgetEntry, CspRule, PolicySourceOrigin } from "./types";
+
+// Entries listed per section of the error message
+const REPORT_LIMIT = 5;
+
+const encoder = new TextEncoder();
+
+/**
+ * Size of a header value in UTF-8 bytes (string length counts UTF-16 code units)
+ * @param value - Header value
+ * @returns Byte length
+ */
+export function byteLength(value: string): number {
+	return encoder.encode(value).length;
+}
+
+/**
+ * Thrown when a compiled CSP header is larger than `headerBudget`
+ *
+ * Raised while policies are compiled (at startup for the middleware's global and per-route
+ * policies), so an oversized policy fails the deploy instead of requests at the proxy.
+ */
+export class CspBudgetExceededError extends Error {
+	/** Size of the compiled header */
+	readonly bytes: number;
+	/** Configured budget */
+	readonly budget: number;
+	/** Bytes per directive, largest first */
+	readonly directives: readonly CspBudgetEntry[];
+	/** Bytes each rule added (defaults under "defaults"), largest first */
+	readonly rules: readonly CspBudgetEntry[];
+
+	constructor(bytes: number, budget: number, directives: CspBudgetEntry[], rules: CspBudgetEntry[]) {
+		const list = (entries: CspBudgetEntry[]) =>
+			entries
+				.slice(0, REPORT_LIMIT)
+				.map((entry) => `\n  ${entry.name}: ${entry.bytes} bytes`)
+				.join("");
+
+		super(
+			`[@enalmada/start-secure] CSP header is ${bytes} bytes, over the ${budget}-byte budget.` +
+				`\nLargest directives:${list(directives)}` +
+				`\nLargest rules:${list(rules)}` +
+				"\nEnable `optimize`, move page-specific rules to `routes`, or raise `headerBudget`.",
+		);
+		this.name = "CspBudgetExceededError";
+		this.bytes = bytes;
+		this.budget = budget;
+		this.directives = directives;
+		this.rules = rules;
+	}
+}
+
+/**
+ * Name a source origin for the report
+ */
+function originName(origin: PolicySourceOrigin, rules: readonly CspRule[]): string {
+	if (origin.kind === "default") return "defaults";
+	return origin.description ?? rules[origin.ruleIndex]?.source ?? `rules[${origin.ruleIndex}]`;
+}
+
+/**
+ * Sort entries largest first
+ */
+function bySize(sizes: Map<string, number>): CspBudgetEntry[] {
+	return Array.from(sizes, ([name, bytes]) => ({ name, bytes })).sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Build the budget error for a compiled policy
+ *
+ * A source added by several rules counts toward each of them, so rule sizes can add up to
+ * more than the header.
+ *
+ * @param header - Serialized CSP header
+ * @param budget - Configured budget in bytes
+ * @param directives - Compiled directive map the header was serialized from
+ * @param rules - Rules the policy was compiled from (for rule names)
+ * @param provenance - Where each source came from
+ * @returns Error describing where the bytes went
+ */
+export function createBudgetError(
+	header: string,
+	budget: number,
+	directives: Record<string, readonly string[]>,
+	rules: readonly CspRule[],
+	provenance: PolicyProvenance,
+): CspBudgetExceededError {
+	const directiveSizes = new Map<string, number>();
+	const ruleSizes = new Map<string, number>();
+
+	for (const [directive, values] of Object.entries(directives)) {
+		// "<directive> <sources>; "
+		directiveSizes.set(
+			directive,
+			byteLength(directive) + values.reduce((size, value) => size + byteLength(value) + 1, 0) + 2,
+		);
+
+		for (const value of values) {
+			for (const name of new Set((provenance[directive]?.get(value) ?? []).map((o) => originName(o, rules)))) {
+				ruleSizes.set(name, (ruleSizes.get(name) ?? 0) + byteLength(value) + 1);
+			}
+		}
+	}
+
+	return new CspBudgetExceededError(byteLength(header), budget, bySize(directiveSizes), bySize(ruleSizes));
+}
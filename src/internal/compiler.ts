@@ -0,0 +1,284 @@
+/**
+ * CSP policy compiler
+ * Single pipeline shared by the middleware and header generator:
+ * grammar check (strict mode) → defaults → rule merge (with validation) → hashes → granular directive copy → optimization → serialization → diagnostics
+ */
+
+import { byteLength, createBudgetError } from "./budget";
+import { getDefaultCspDirectives } from "./defaults";
+import { resolveEnvironment, ruleAppliesTo } from "./environment";
+import {
+	mergeDirectivesWithDefaults,
+	type PolicyProvenance,
+	recordOrigin,
+	ruleOrigin,
+	validateCspRules,
+} from "./merger";
+import { optimizeCspDirectives } from "./optimizer";
+import type { CspRule, CspStyleOptions, DevServerOptions, PolicyAnalysisOptions } from "./types";
+import { CspValidationError } from "./validation";
+
+/**
+ * Options for compiling a policy
+ */
+export interface PolicyCompileOptions extends CspStyleOptions {
+	/** Whether in development mode (adds unsafe-eval, WebSocket support) */
+	isDev: boolean;
+	/** Nonce for script directives; without one, scripts fall back to 'self' 'unsafe-inline' */
+	nonce?: string | undefined;
+	/** Without a nonce, trust scripts by 'self' and rule hashes only (no 'unsafe-inline' fallback) */
+	hashOnlyScripts?: boolean | undefined;
+	/** Development connect-src origins (HMR, remote dev environments, tooling) */
+	devServer?: DevServerOptions | undefined;
+	/** Drop redundant sources and directives */
+	optimize?: boolean | undefined;
+	/** Maximum header size in bytes; larger policies throw CspBudgetExceededError */
+	headerBudget?: number | undefined;
+	/** Throw CspValidationError for grammar issues instead of warning */
+	strict?: boolean | undefined;
+}
+
+// Granular CSP Level 3 directives and the base directive they extend
+// When CSP Level 3 browsers see -elem/-attr directives, they ONLY use those,
+// so sources from the base directive must be copied over
+const GRANULAR_DIRECTIVES: readonly [base: string, granular: string][] = [
+	["style-src", "style-src-elem"],
+	["script-src", "script-src-elem"],
+];
+
+// Directives that receive each kind of inline-content hash
+const HASH_TARGETS = {
+	scripts: ["script-src", "script-src-elem"],
+	styles: ["style-src", "style-src-elem"],
+} as const;
+
+const HASH_PATTERN = /^'?(sha256|sha384|sha512)-([A-Za-z0-9+/_-]+={0,2})'?$/;
+
+/**
+ * Normalize a hash to its quoted source form, or undefined if it isn't a valid hash source
+ */
+function normalizeHash(hash: string): string | undefined {
+	const match = HASH_PATTERN.exec(hash.trim());
+	return match ? `'${match[1]}-${match[2]}'` : undefined;
+}
+
+/**
+ * Insert a source right after the last nonce/hash in a directive (or at the end if there is none)
+ */
+function insertNextToNonce(sources: Set<string>, value: string): void {
+	if (sources.has(value)) return;
+
+	const values = Array.from(sources).filter((v) => v !== "'none'");
+	let index = values.length;
+	for (let i = values.length - 1; i >= 0; i--) {
+		if (/^'(nonce|sha256|sha384|sha512)-/.test(values[i] ?? "")) {
+			index = i + 1;
+			break;
+		}
+	}
+	values.splice(index, 0, value);
+
+	sources.clear();
+	for (const v of values) {
+		sources.add(v);
+	}
+}
+
+/**
+ * Place rule hashes into script and style directives next to the nonce
+ *
+ * Style hashes are skipped for directives that allow 'unsafe-inline': browsers ignore
+ * 'unsafe-inline' once a hash is present, which would block every other inline style.
+ * Script hashes are always added (the user asked for hash-based trust), with a warning
+ * if that disables 'unsafe-inline'.
+ */
+function applyHashes(
+	directives: Record<string, Set<string>>,
+	rules: readonly CspRule[],
+	provenance?: PolicyProvenance,
+): void {
+	const warned = new Set<string>();
+
+	for (const [ruleIndex, rule] of rules.entries()) {
+		for (const kind of ["scripts", "styles"] as const) {
+			for (const hash of rule.hashes?.[kind] ?? []) {
+				const normalized = normalizeHash(hash);
+				if (!normalized) {
+					// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+					console.warn(
+						`[@enalmada/start-secure] Ignoring invalid ${kind} hash "${hash}". Expected 'sha256-<base64>' (or sha384/sha512).` +
+							(rule.description ? ` (Rule: ${rule.description})` : ""),
+					);
+					continue;
+				}
+
+				for (const directive of HASH_TARGETS[kind]) {
+					const sources = directives[directive];
+					if (!sources) continue;
+
+					if (sources.has("'unsafe-inline'")) {
+						if (kind === "styles") continue;
+						if (!warned.has(directive)) {
+							warned.add(directive);
+							// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+							console.warn(
+								`[@enalmada/start-secure] Hashes in "${directive}" make browsers ignore 'unsafe-inline'. ` +
+									"Inline scripts without a matching hash or nonce will be blocked.",
+							);
+						}
+					}
+
+					insertNextToNonce(sources, normalized);
+					provenance?.[directive]?.delete("'none'");
+					recordOrigin(provenance, directive, normalized, ruleOrigin(rule, ruleIndex));
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Copy sources from base directives to granular directives
+ *
+ * Exception: 'unsafe-eval' is NOT copied to script-src-elem.
+ * According to CSP spec, 'unsafe-eval' controls eval()/Function() execution,
+ * which is governed by script-src, not script-src-elem (which controls <script> elements).
+ */
+function copyToGranularDirectives(directives: Record<string, Set<string>>, provenance?: PolicyProvenance): void {
+	for (const [base, granular] of GRANULAR_DIRECTIVES) {
+		const baseSources = directives[base];
+		const granularSources = directives[granular];
+		if (!baseSources || !granularSources) continue;
+
+		for (const source of baseSources) {
+			// Don't copy 'unsafe-eval' to script-src-elem (causes browser warning)
+			if (granular === "script-src-elem" && source === "'unsafe-eval'") continue;
+			// 'none' in the base must not be mixed into a granular directive with sources
+			if (source === "'none'") continue;
+
+			// Already present: the copy changes nothing, so it adds no provenance either
+			if (granularSources.has(source)) continue;
+
+			granularSources.delete("'none'");
+			provenance?.[granular]?.delete("'none'");
+			granularSources.add(source);
+			const origins = provenance?.[base]?.get(source) ?? [];
+			recordOrigin(provenance, granular, source, ...origins.map((origin) => ({ ...origin, copiedFrom: base })));
+		}
+	}
+}
+
+/**
+ * Compile rules into the final directive map
+ * @param rules - User-provided CSP rules to merge with defaults
+ * @param options - Compile options
+ * @param provenance - Optional recorder for where each source came from
+ * @returns Directives in header order with their source lists (empty list for valueless directives)
+ * @throws CspValidationError in strict mode if a rule doesn't match the CSP grammar
+ */
+export function compileCspDirectives(
+	rules: readonly CspRule[],
+	options: PolicyCompileOptions,
+	provenance?: PolicyProvenance,
+): Record<string, string[]> {
+	if (options.strict) {
+		const issues = validateCspRules(rules);
+		if (issues.length > 0) {
+			throw new CspValidationError(issues);
+		}
+	}
+
+	const defaults = getDefaultCspDirectives(options.isDev, options.nonce, options);
+	const merged = mergeDirectivesWithDefaults(defaults, rules, options.isDev, provenance);
+
+	applyHashes(merged, rules, provenance);
+	copyToGranularDirectives(merged, provenance);
+
+	const directives = Object.fromEntries(
+		Object.entries(merged).map(([directive, values]) => [directive, Array.from(values).filter((v) => v !== "")]),
+	);
+	return options.optimize ? optimizeCspDirectives(directives).directives : directives;
+}
+
+/**
+ * Compile rules the way the middleware would, for analysis APIs
+ * @param rules - User-provided CSP rules to merge with defaults
+ * @param options - Environment and nonce to compile with
+ * @param provenance - Optional recorder for where each source came from
+ * @returns Final directive map
+ */
+export function compileForAnalysis(
+	rules: readonly CspRule[],
+	options: PolicyAnalysisOptions = {},
+	provenance?: PolicyProvenance,
+): Record<string, string[]> {
+	const { isDev: _isDev, env: _env, profiles: _profiles, nonce = "{nonce}", ...buildOptions } = options;
+	const environment = resolveEnvironment(options);
+	// Rules for other environments are blanked rather than removed, so provenance keeps the caller's rule indices
+	const activeRules = rules.map((rule) => (ruleAppliesTo(rule, environment) ? rule : {}));
+	return compileCspDirectives(
+		activeRules,
+		{ ...buildOptions, isDev: environment.isDev, nonce: nonce === false ? undefined : nonce },
+		provenance,
+	);
+}
+
+/**
+ * Serialize a directive map into a CSP header value
+ * @param directives - Directive map (valueless directives have an empty list)
+ * @returns CSP header string
+ */
+export function serializeCspDirectives(directives: Record<string, readonly string[]>): string {
+	return Object.entries(directives)
+		.map(([directive, values]) => (values.length > 0 ? `${directive} ${values.join(" ")}` : directive))
+		.join("; ");
+}
+
+/**
+ * Warn if the CSP header is large enough to be rejected by browsers or proxies
+ */
+function warnOnHeaderSize(header: string): void {
+	const bytes = byteLength(header);
+	if (bytes > 4000) {
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn(
+			`[@enalmada/start-secure] Large CSP header detected (${bytes} bytes). Some browsers/proxies have limits around 4-8KB. Consider reducing rules.`,
+		);
+	}
+	if (bytes > 8000) {
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.error(
+			`[@enalmada/start-secure] CSP header is very large (${bytes} bytes). This may be rejected by browsers/proxies. Maximum ~8KB recommended.`,
+		);
+	}
+}
+
+/**
+ * Compile rules into a CSP header value
+ *
+ * The same rules always produce the same policy and the same diagnostics,
+ * whichever public API is used. With `headerBudget`, the budget replaces the size warnings.
+ *
+ * @param rules - User-provided CSP rules to merge with defaults
+ * @param options - Compile options
+ * @returns CSP header string
+ * @throws CspBudgetExceededError if the header is larger than `headerBudget`
+ * @throws CspValidationError in strict mode if a rule doesn't match the CSP grammar
+ */
+export function compileCspPolicy(rules: readonly CspRule[], options: PolicyCompileOptions): string {
+	const { headerBudget } = options;
+	if (headerBudget === undefined) {
+		const header = serializeCspDirectives(compileCspDirectives(rules, options));
+		warnOnHeaderSize(header);
+		return header;
+	}
+
+	// Provenance attributes the bytes to rules if the budget is exceeded
+	const provenance: PolicyProvenance = {};
+	const directives = compileCspDirectives(rules, options, provenance);
+	const header = serializeCspDirectives(directives);
+	if (byteLength(header) > headerBudget) {
+		throw createBudgetError(header, headerBudget, directives, rules, provenance);
+	}
+	return header;
+}
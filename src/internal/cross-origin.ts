@@ -0,0 +1,82 @@
+/**
+ * Cross-origin isolation header utilities
+ * Resolves COOP/COEP/CORP presets and checks them against the CSP
+ */
+
+import { parseCspHeader } from "./parser";
+import type { CrossOriginOptions, CrossOriginPreset } from "./types";
+
+const CROSS_ORIGIN_PRESETS: Record<CrossOriginPreset, CrossOriginOptions> = {
+	isolated: { openerPolicy: "same-origin", embedderPolicy: "require-corp", resourcePolicy: "same-origin" },
+	"isolated-credentialless": {
+		openerPolicy: "same-origin",
+		embedderPolicy: "credentialless",
+		resourcePolicy: "same-origin",
+	},
+	"popup-compatible": { openerPolicy: "same-origin-allow-popups", resourcePolicy: "same-origin" },
+};
+
+// Directives whose cross-origin loads are no-cors requests (blocked by require-corp without CORP)
+const NO_CORS_DIRECTIVES = ["img-src", "media-src", "script-src-elem", "style-src-elem"];
+
+// Directives loading documents, which must opt in with their own COEP under either embedder policy
+const FRAME_DIRECTIVES = ["frame-src", "child-src"];
+
+/**
+ * Resolve a preset and/or explicit values into response headers
+ * @param crossOrigin - Preset name or options
+ * @returns COOP/COEP/CORP headers to set
+ */
+export function resolveCrossOriginHeaders(crossOrigin: CrossOriginPreset | CrossOriginOptions): Record<string, string> {
+	const options = typeof crossOrigin === "string" ? { preset: crossOrigin } : crossOrigin;
+	const preset = options.preset ? CROSS_ORIGIN_PRESETS[options.preset] : undefined;
+	if (options.preset && !preset) {
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn(`[@enalmada/start-secure] Unknown cross-origin preset "${options.preset}".`);
+	}
+
+	const { openerPolicy, embedderPolicy, resourcePolicy } = { ...preset, ...options };
+	return {
+		...(openerPolicy ? { "Cross-Origin-Opener-Policy": openerPolicy } : {}),
+		...(embedderPolicy ? { "Cross-Origin-Embedder-Policy": embedderPolicy } : {}),
+		...(resourcePolicy ? { "Cross-Origin-Resource-Policy": resourcePolicy } : {}),
+	};
+}
+
+/**
+ * Sources that load from another origin (hosts, schemes other than data:/blob:, and *)
+ */
+function getCrossOriginSources(sources: readonly string[]): string[] {
+	return sources.filter((source) => !source.startsWith("'") && source !== "data:" && source !== "blob:");
+}
+
+/**
+ * Warn about CSP sources that an embedder policy will break
+ *
+ * Under `require-corp`, cross-origin images, media, scripts, and stylesheets loaded without CORS
+ * must send `Cross-Origin-Resource-Policy`. Under either embedder policy, framed documents must
+ * send their own COEP.
+ *
+ * @param headers - Resolved response headers
+ * @param cspHeader - CSP header value the headers are sent with
+ */
+export function warnOnCrossOriginConflicts(headers: Readonly<Record<string, string>>, cspHeader: string): void {
+	const embedderPolicy = headers["Cross-Origin-Embedder-Policy"];
+	if (embedderPolicy !== "require-corp" && embedderPolicy !== "credentialless") return;
+
+	const directives = parseCspHeader(cspHeader);
+	const checked = embedderPolicy === "require-corp" ? [...NO_CORS_DIRECTIVES, ...FRAME_DIRECTIVES] : FRAME_DIRECTIVES;
+
+	for (const directive of checked) {
+		const sources = getCrossOriginSources(directives[directive] ?? []);
+		if (sources.length === 0) continue;
+
+		const requirement = FRAME_DIRECTIVES.includes(directive)
+			? "Framed pages must send their own Cross-Origin-Embedder-Policy."
+			: "They must send Cross-Origin-Resource-Policy or be loaded with the crossorigin attribute (or use COEP credentialless).";
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn(
+			`[@enalmada/start-secure] Cross-Origin-Embedder-Policy: ${embedderPolicy} may block ${directive} sources ${sources.join(" ")}. ${requirement}`,
+		);
+	}
+}
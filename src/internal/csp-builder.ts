@@ -3,146 +3,109 @@
  * Builds CSP header from rules, nonce, and environment configuration
  */
 
-import type { CspRule } from "./types";
+import { compileCspPolicy, type PolicyCompileOptions } from "./compiler";
+import type { CspRule, CspStyleOptions } from "./types";
+
+/**
+ * Policy options besides environment and nonce: inline styles, dev-server origins, optimization, size budget, and strict grammar
+ */
+export type CspBuildOptions = CspStyleOptions &
+	Pick<PolicyCompileOptions, "devServer" | "optimize" | "headerBudget" | "strict">;
 
 /**
  * Build CSP header value from rules and nonce
  *
- * Merges base directives with user-provided rules, adds nonce to script directives,
+ * Merges default directives with user-provided rules, adds nonce to script directives,
  * and copies sources from base directives to granular directives (CSP Level 3 support).
+ * Uses the same policy compiler as generateSecurityHeaders.
  *
  * @param rules - User-provided CSP rules to merge
  * @param nonce - Cryptographically random nonce for this request
- * @param isDev - Whether in development mode (adds unsafe-eval, WebSocket support)
+ * @param isDev - Whether in development mode (adds unsafe-eval, dev-server WebSockets)
+ * @param buildOptions - Inline style handling (defaults to pragmatic 'unsafe-inline' styles), dev-server origins,
+ * optimization, header budget, and strict validation (optional)
  * @returns CSP header string
  */
-export function buildCspHeader(rules: CspRule[], nonce: string, isDev: boolean): string {
-	// Base directives with nonce
-	const directives: Record<string, string[]> = {
-		"default-src": ["'self'"],
-		"base-uri": ["'self'"],
-		"child-src": ["'none'"],
-		"connect-src": isDev ? ["'self'", "ws://localhost:*", "wss://localhost:*"] : ["'self'"],
-		"font-src": ["'self'"],
-		"form-action": ["'self'"],
-		"frame-ancestors": ["'none'"],
-		"frame-src": ["'none'"],
-		"img-src": ["'self'", "blob:", "data:"],
-		"manifest-src": ["'self'"],
-		"media-src": ["'self'"],
-		"object-src": ["'none'"],
-		// Script sources with nonce and strict-dynamic (CSP Level 3)
-		//
-		// CSP Level 3 strict-dynamic behavior:
-		// - Scripts with valid nonces can load other scripts (trusted chain)
-		// - The following directives are IGNORED and cause browser console warnings:
-		//   × 'self' - Ignored with 'strict-dynamic' (use nonce-based trust instead)
-		//   × 'unsafe-inline' - Ignored when nonce is present
-		//   × https: / http: - Ignored with 'strict-dynamic' (overly permissive)
-		//   × URL whitelists - Ignored with 'strict-dynamic' (use nonce chain)
-		//
-		// Development mode: Adds 'unsafe-eval' for source maps and dev tools
-		// Production mode: Strict nonce-only execution
-		//
-		// Why no fallbacks?
-		// If you're using 'strict-dynamic', you're targeting CSP Level 3 browsers.
-		// Adding fallbacks for older browsers just creates console noise without benefit.
-		"script-src": [`'nonce-${nonce}'`, "'strict-dynamic'", ...(isDev ? ["'unsafe-eval'"] : [])],
-		// Allow <script> elements (tags) - nonce + strict-dynamic only
-		// Note: 'unsafe-eval' not included here (only applies to script-src, not script-src-elem)
-		"script-src-elem": [`'nonce-${nonce}'`, "'strict-dynamic'"],
-		// Inline event handlers (onclick, onload, etc.) - generally avoid these
-		// Only add if you need inline event handlers
-		// "script-src-attr": ["'unsafe-inline'"],
-
-		// Style sources
-		// Note: We use 'unsafe-inline' for styles (not ideal but practical)
-		// Frameworks like React, Vite HMR, and CSS-in-JS dynamically inject styles
-		// that can't have nonces. Scripts are still protected with nonces (main XSS vector).
-		"style-src": ["'self'", "'unsafe-inline'"],
-		// Allow <style> elements without nonce requirement
-		// This is a pragmatic security trade-off - scripts remain strict
-		"style-src-elem": ["'self'", "'unsafe-inline'"],
-		// Allow inline style attributes (e.g., <div style="...">)
-		"style-src-attr": ["'unsafe-inline'"],
-		"worker-src": ["'self'", "blob:"],
-	};
-
-	// Merge user-provided CSP rules
-	for (const rule of rules) {
-		for (const [key, value] of Object.entries(rule)) {
-			// Skip metadata fields
-			if (key === "description" || key === "source") continue;
-
-			const directive = key as keyof typeof directives;
-			if (!directives[directive]) {
-				directives[directive] = [];
-			}
-
-			// Add values (split if string)
-			let values = typeof value === "string" ? value.split(/\s+/) : value;
-
-			// Filter out empty strings
-			values = values.filter((v: string) => v && v.trim() !== "");
-
-			// Special handling for 'none' keyword:
-			// According to CSP spec, 'none' must be the ONLY value in a directive
-
-			// Case 1: If user is adding 'none' with other values, remove 'none' (invalid mix)
-			if (values.length > 1 && values.includes("'none'")) {
-				values = values.filter((v: string) => v !== "'none'");
-			}
+export function buildCspHeader(
+	rules: CspRule[],
+	nonce: string,
+	isDev: boolean,
+	buildOptions: CspBuildOptions = {},
+): string {
+	return compileCspPolicy(rules, { ...buildOptions, isDev, nonce });
+}
 
-			// Case 2: If user is adding ONLY 'none', clear directive and set to 'none'
-			if (values.length === 1 && values[0] === "'none'") {
-				directives[directive] = ["'none'"];
-				continue; // Skip the normal addition loop
-			}
+// Directives that browsers ignore (with a console warning) in report-only policies
+const DIRECTIVES_IGNORED_IN_REPORT_ONLY = new Set(["frame-ancestors", "sandbox"]);
 
-			// Case 3: If directive has 'none' and we're adding other values, remove 'none'
-			if (values.length > 0 && directives[directive].includes("'none'")) {
-				directives[directive] = directives[directive].filter((v) => v !== "'none'");
-			}
+/**
+ * Adapt a CSP header value for delivery via Content-Security-Policy-Report-Only
+ *
+ * Removes directives that are not supported in report-only policies
+ * (frame-ancestors, sandbox) to avoid browser console warnings.
+ *
+ * @param cspHeader - CSP header string built by buildCspHeader
+ * @returns CSP header string suitable for report-only delivery
+ */
+export function toReportOnlyPolicy(cspHeader: string): string {
+	return cspHeader
+		.split("; ")
+		.filter((directive) => !DIRECTIVES_IGNORED_IN_REPORT_ONLY.has(directive.split(" ")[0] ?? ""))
+		.join("; ");
+}
 
-			// Add the values
-			for (const v of values) {
-				if (v && !directives[directive].includes(v)) {
-					directives[directive].push(v);
-				}
-			}
-		}
-	}
+// Stand-in for the nonce while compiling; cannot occur in a valid CSP header
+// Same length as generateNonce() output so header-size diagnostics stay accurate
+export const NONCE_PLACEHOLDER = `\u0000${"nonce".padEnd(46, "-")}\u0000`;
 
-	// Copy sources from base directives to granular directives
-	// When CSP Level 3 browsers see -elem/-attr directives, they ONLY use those
-	// So we need to ensure sources from base directives are copied over
-	//
-	// Exception: 'unsafe-eval' should NOT be copied to script-src-elem
-	// According to CSP spec, 'unsafe-eval' controls eval()/Function() execution,
-	// which is governed by script-src, not script-src-elem (which controls <script> elements)
-	const directivesToCopy: [string, string][] = [
-		["style-src", "style-src-elem"],
-		["script-src", "script-src-elem"],
-	];
+/**
+ * Precompiled CSP policy
+ * Everything except the nonce is resolved once; rendering only substitutes the nonce.
+ */
+export interface CspTemplate {
+	/** Produce the header value for a request */
+	readonly render: (nonce: string) => string;
+}
 
-	for (const [base, granular] of directivesToCopy) {
-		if (directives[base] && directives[granular]) {
-			for (const source of directives[base]) {
-				// Don't copy 'unsafe-eval' to script-src-elem (causes browser warning)
-				if (granular === "script-src-elem" && source === "'unsafe-eval'") {
-					continue;
-				}
-				if (!directives[granular].includes(source)) {
-					directives[granular].push(source);
-				}
+/**
+ * Split a header value compiled with NONCE_PLACEHOLDER into a template
+ * @param value - Header value containing the placeholder wherever the nonce goes
+ * @returns Template that renders the value for a given nonce
+ */
+export function compileNonceTemplate(value: string): CspTemplate {
+	const [head = "", ...rest] = value.split(NONCE_PLACEHOLDER);
+
+	return {
+		render(nonce: string): string {
+			// String concatenation (not join) so V8 builds a rope instead of copying the policy
+			let header = head;
+			for (const part of rest) {
+				header = header + nonce + part;
 			}
-		}
-	}
-
-	// Build CSP string
-	const cspString = Object.entries(directives)
-		.map(([key, values]) => `${key} ${values.join(" ")}`)
-		.join("; ");
+			return header;
+		},
+	};
+}
 
-	return cspString;
+/**
+ * Compile CSP rules into a reusable policy template
+ *
+ * Runs the full merge once with a placeholder nonce and splits the result around it,
+ * so the per-request cost is a fixed number of string concatenations regardless of
+ * how many rules were merged.
+ *
+ * @param rules - User-provided CSP rules to merge
+ * @param isDev - Whether in development mode (adds unsafe-eval, dev-server WebSockets)
+ * @param reportOnly - Whether the policy will be delivered as report-only
+ * @param buildOptions - Inline style handling, dev-server origins, optimization, header budget, and strict validation
+ * @returns Template that renders the header for a given nonce
+ */
+export function compileCspTemplate(
+	rules: CspRule[],
+	isDev: boolean,
+	reportOnly = false,
+	buildOptions: CspBuildOptions = {},
+): CspTemplate {
+	const compiled = buildCspHeader(rules, NONCE_PLACEHOLDER, isDev, buildOptions);
+	return compileNonceTemplate(reportOnly ? toReportOnlyPolicy(compiled) : compiled);
 }
@@ -3,7 +3,9 @@
  * Provides secure defaults following security best practices
  */
 
-import type { SecurityHeadersConfig } from "./types";
+import { resolveDevConnectSources } from "./dev-server";
+import { buildPermissionsPolicy } from "./permissions-policy";
+import type { CspStyleOptions, DevServerOptions, SecurityHeadersConfig } from "./types";
 
 /**
  * Validates a nonce value for CSP
@@ -38,7 +40,12 @@ export function validateNonce(nonce: string): boolean {
 /**
  * Default security headers (strict by default)
  */
-export const defaultSecurityHeadersConfig: Required<Omit<SecurityHeadersConfig, "X-Powered-By">> = {
+export const defaultSecurityHeadersConfig: Required<
+	Omit<
+		SecurityHeadersConfig,
+		"X-Powered-By" | "Cross-Origin-Opener-Policy" | "Cross-Origin-Embedder-Policy" | "Cross-Origin-Resource-Policy"
+	>
+> = {
 	// Prevent clickjacking
 	"X-Frame-Options": "DENY",
 	// Prevent MIME-sniffing
@@ -47,32 +54,46 @@ export const defaultSecurityHeadersConfig: Required<Omit<SecurityHeadersConfig,
 	"Referrer-Policy": "strict-origin-when-cross-origin",
 	// Legacy XSS protection
 	"X-XSS-Protection": "1; mode=block",
-	// Force HTTPS (with preload for HSTS preload list)
+	/**
+	 * @deprecated Unused: Strict-Transport-Security is built from `options.hsts` (see buildHstsHeader).
+	 * Kept for compatibility and removed in the next major version.
+	 */
 	"Strict-Transport-Security": "max-age=31536000; includeSubDomains; preload",
 	// Control browser features and block privacy-invasive APIs
-	"Permissions-Policy":
-		"accelerometer=(), camera=(), geolocation=(), gyroscope=(), magnetometer=(), microphone=(), payment=(), usb=(), interest-cohort=(), browsing-topics=()",
+	"Permissions-Policy": buildPermissionsPolicy([]),
 };
 
 /**
  * Default CSP directives factory
  * Returns base directives with environment-specific adjustments
+ *
+ * @param isDev - Whether in development mode (adds unsafe-eval, dev-server WebSockets)
+ * @param nonce - Per-request nonce; without one, scripts fall back to 'self' 'unsafe-inline'
+ * @param buildOptions - Inline style handling (pragmatic by default); `hashOnlyScripts` drops the
+ * 'unsafe-inline' fallback so scripts are trusted by origin and hash only (static hosting);
+ * `devServer` sets the development connect-src origins
  */
-export function getDefaultCspDirectives(isDev: boolean, nonce?: string): Record<string, string[]> {
-	// Validate nonce if provided
-	if (nonce && !validateNonce(nonce)) {
-		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
-		console.warn(
-			"[@enalmada/start-secure] Invalid nonce detected. See warnings above. " +
-				"Nonces should be cryptographically random, at least 128 bits, and generated per-request.",
-		);
-	}
+export function getDefaultCspDirectives(
+	isDev: boolean,
+	nonce?: string,
+	buildOptions: CspStyleOptions & {
+		hashOnlyScripts?: boolean | undefined;
+		devServer?: DevServerOptions | undefined;
+	} = {},
+): Record<string, string[]> {
+	const strictStyles = buildOptions.styles === "strict";
+	// Without a nonce: 'self' plus rule hashes for static hosting, or the legacy 'unsafe-inline' fallback
+	const scriptFallback = buildOptions.hashOnlyScripts ? ["'self'"] : ["'self'", "'unsafe-inline'"];
+	// Strict styles: <style> elements need the nonce (or a hash), nothing else inline is allowed
+	const styleElementSources = strictStyles
+		? ["'self'", ...(nonce ? [`'nonce-${nonce}'`] : [])]
+		: ["'self'", "'unsafe-inline'"];
 
 	return {
 		"default-src": ["'self'"],
 		"base-uri": ["'self'"],
 		"child-src": ["'none'"],
-		"connect-src": isDev ? ["'self'", "ws://localhost:*", "wss://localhost:*"] : ["'self'"],
+		"connect-src": isDev ? ["'self'", ...resolveDevConnectSources(buildOptions.devServer)] : ["'self'"],
 		"font-src": ["'self'"],
 		"form-action": ["'self'"],
 		"frame-ancestors": ["'none'"],
@@ -81,17 +102,46 @@ export function getDefaultCspDirectives(isDev: boolean, nonce?: string): Record<
 		"manifest-src": ["'self'"],
 		"media-src": ["'self'"],
 		"object-src": ["'none'"],
-		// CSP Level 3: Use nonce + strict-dynamic for scripts
-		// Removes redundant 'self' and 'unsafe-inline' to avoid console warnings
-		// Fallback to 'unsafe-inline' only if no nonce provided (legacy support)
+		// Script sources with nonce and strict-dynamic (CSP Level 3)
+		//
+		// CSP Level 3 strict-dynamic behavior:
+		// - Scripts with valid nonces can load other scripts (trusted chain)
+		// - The following directives are IGNORED and cause browser console warnings:
+		//   × 'self' - Ignored with 'strict-dynamic' (use nonce-based trust instead)
+		//   × 'unsafe-inline' - Ignored when nonce is present
+		//   × https: / http: - Ignored with 'strict-dynamic' (overly permissive)
+		//   × URL whitelists - Ignored with 'strict-dynamic' (use nonce chain)
+		//
+		// Development mode: Adds 'unsafe-eval' for source maps and dev tools
+		// Production mode: Strict nonce-only execution
+		//
+		// Why no fallbacks?
+		// If you're using 'strict-dynamic', you're targeting CSP Level 3 browsers.
+		// Adding fallbacks for older browsers just creates console noise without benefit.
+		//
+		// Without a nonce (legacy handler usage) scripts fall back to 'self' 'unsafe-inline'
 		"script-src": [
-			...(nonce
-				? [`'nonce-${nonce}'`, "'strict-dynamic'", ...(isDev ? ["'unsafe-eval'"] : [])]
-				: ["'self'", "'unsafe-inline'", ...(isDev ? ["'unsafe-eval'"] : [])]),
+			...(nonce ? [`'nonce-${nonce}'`, "'strict-dynamic'"] : scriptFallback),
+			...(isDev ? ["'unsafe-eval'"] : []),
 		],
-		// script-src-elem: 'unsafe-eval' not included (only applies to script-src)
-		"script-src-elem": [...(nonce ? [`'nonce-${nonce}'`, "'strict-dynamic'"] : ["'self'", "'unsafe-inline'"])],
-		"style-src": ["'self'", ...(nonce ? [`'nonce-${nonce}'`] : ["'unsafe-inline'"])],
+		// Allow <script> elements (tags)
+		// Note: 'unsafe-eval' not included here (only applies to script-src, not script-src-elem)
+		"script-src-elem": nonce ? [`'nonce-${nonce}'`, "'strict-dynamic'"] : scriptFallback,
+		// Inline event handlers (onclick, onload, etc.) - generally avoid these
+		// Only add if you need inline event handlers
+		// "script-src-attr": ["'unsafe-inline'"],
+
+		// Style sources
+		// Note: By default we use 'unsafe-inline' for styles (not ideal but practical)
+		// Frameworks like React, Vite HMR, and CSS-in-JS dynamically inject styles
+		// that can't have nonces. Scripts are still protected with nonces (main XSS vector).
+		// Apps with only extracted CSS can opt into strict mode instead.
+		"style-src": styleElementSources,
+		// Allow <style> elements (pragmatic: without nonce requirement)
+		// This is a pragmatic security trade-off - scripts remain strict
+		"style-src-elem": styleElementSources,
+		// Inline style attributes (e.g., <div style="...">) can't carry a nonce
+		"style-src-attr": strictStyles && !buildOptions.inlineStyleAttributes ? ["'none'"] : ["'unsafe-inline'"],
 		"worker-src": ["'self'", "blob:"],
 	};
 }
@@ -0,0 +1,93 @@
+/**
+ * Development server origin utilities
+ * Builds the dev-only connect-src sources for HMR WebSockets, remote dev environments, and tooling
+ */
+
+import type { DevServerOptions } from "./types";
+
+/**
+ * Environment variable the Vite plugin uses to hand the dev-server settings to the app
+ */
+export const DEV_SERVER_ENV = "START_SECURE_DEV_SERVER";
+
+// HMR sources used when nothing is configured
+const DEFAULT_HMR_SOURCES = ["ws://localhost:*", "wss://localhost:*"];
+
+/**
+ * Read dev-server settings published by the Vite plugin, if any
+ */
+function readDevServerFromEnv(env: Record<string, string | undefined>): DevServerOptions | undefined {
+	const value = env[DEV_SERVER_ENV];
+	if (!value) return undefined;
+	try {
+		return JSON.parse(value) as DevServerOptions;
+	} catch {
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn(`[@enalmada/start-secure] Ignoring invalid ${DEV_SERVER_ENV} value (expected JSON).`);
+		return undefined;
+	}
+}
+
+/**
+ * Forwarded-port hosts for GitHub Codespaces and Gitpod
+ * Each port gets its own subdomain of a domain shared with other users' workspaces, and CSP
+ * wildcards only cover whole leading labels, so nothing is allowed without a known port.
+ */
+function getRemoteHosts(env: Record<string, string | undefined>, port: number | undefined): string[] {
+	const { CODESPACE_NAME, GITHUB_CODESPACES_PORT_FORWARDING_DOMAIN, GITPOD_WORKSPACE_URL } = env;
+	const hosts: string[] = [];
+	if (!port) return hosts;
+
+	if (CODESPACE_NAME && GITHUB_CODESPACES_PORT_FORWARDING_DOMAIN) {
+		hosts.push(`${CODESPACE_NAME}-${port}.${GITHUB_CODESPACES_PORT_FORWARDING_DOMAIN}`);
+	}
+
+	if (GITPOD_WORKSPACE_URL) {
+		const workspaceHost = GITPOD_WORKSPACE_URL.replace(/^https?:\/\//, "").replace(/\/.*$/, "");
+		hosts.push(`${port}-${workspaceHost}`);
+	}
+
+	return hosts;
+}
+
+/**
+ * Build the dev-only connect-src sources
+ *
+ * Uses `devServer` when given, otherwise settings published by the Vite plugin, otherwise
+ * the historical `ws://localhost:*` / `wss://localhost:*`.
+ *
+ * @param devServer - Dev-server options (optional)
+ * @param env - Process environment (for the Vite plugin hand-off and Codespaces/Gitpod detection)
+ * @returns Sources to add to connect-src in development
+ */
+export function resolveDevConnectSources(
+	devServer?: DevServerOptions,
+	env: Record<string, string | undefined> = process.env,
+): string[] {
+	const options = devServer ?? readDevServerFromEnv(env) ?? {};
+	const { hmr, origins = [], remote = true } = options;
+	const sources: string[] = [];
+
+	if (hmr === undefined) {
+		sources.push(...DEFAULT_HMR_SOURCES);
+	} else if (hmr) {
+		const hosts = typeof hmr.host === "string" ? [hmr.host] : (hmr.host ?? ["localhost"]);
+		const port = hmr.clientPort ?? hmr.port;
+		for (const host of hosts) {
+			for (const protocol of hmr.protocol ? [hmr.protocol] : ["ws", "wss"]) {
+				sources.push(`${protocol}://${host}:${port ?? "*"}`);
+			}
+		}
+	}
+
+	if (remote) {
+		// Forwarded URLs are HTTPS-only; the port in the hostname is the server's, not the client's
+		const port = hmr ? hmr.port : undefined;
+		for (const host of getRemoteHosts(env, port)) {
+			sources.push(`wss://${host}`, `https://${host}`);
+		}
+	}
+
+	sources.push(...origins);
+	return Array.from(new Set(sources));
+}
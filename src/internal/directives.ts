@@ -0,0 +1,308 @@
+/**
+ * CSP directive metadata
+ * Known directives, their value grammar, and fallback relationships as defined by CSP Level 3
+ */
+
+import type { CspValidationIssue } from "./types";
+
+// Directive → directives it falls back to, nearest first
+// Directives not listed here (base-uri, form-action, frame-ancestors, ...) have no fallback
+const FALLBACK_CHAINS: Record<string, readonly string[]> = {
+	"script-src-elem": ["script-src", "default-src"],
+	"script-src-attr": ["script-src", "default-src"],
+	"style-src-elem": ["style-src", "default-src"],
+	"style-src-attr": ["style-src", "default-src"],
+	"worker-src": ["child-src", "script-src", "default-src"],
+	"frame-src": ["child-src", "default-src"],
+	"child-src": ["default-src"],
+	"connect-src": ["default-src"],
+	"font-src": ["default-src"],
+	"img-src": ["default-src"],
+	"manifest-src": ["default-src"],
+	"media-src": ["default-src"],
+	"object-src": ["default-src"],
+	"script-src": ["default-src"],
+	"style-src": ["default-src"],
+};
+
+/**
+ * Directives that fall back to another directive when absent
+ */
+export const FALLBACK_DIRECTIVES: readonly string[] = Object.keys(FALLBACK_CHAINS);
+
+/**
+ * Get the directives a directive falls back to when absent, nearest first
+ * @param directive - Directive name
+ * @returns Fallback chain (empty if the directive has no fallback)
+ */
+export function getFallbackChain(directive: string): readonly string[] {
+	return FALLBACK_CHAINS[directive] ?? [];
+}
+
+/**
+ * Resolve the sources a browser would actually apply for a directive
+ * @param directives - Directive map
+ * @param directive - Directive to resolve
+ * @returns The directive that applies (itself or a fallback) and its sources, or undefined if unrestricted
+ */
+export function getEffectiveDirective(
+	directives: Record<string, readonly string[]>,
+	directive: string,
+): { directive: string; sources: readonly string[] } | undefined {
+	for (const candidate of [directive, ...getFallbackChain(directive)]) {
+		const sources = directives[candidate];
+		if (sources) {
+			return { directive: candidate, sources };
+		}
+	}
+	return undefined;
+}
+
+// How a directive's values are parsed
+type DirectiveGrammar =
+	| "source-list"
+	| "ancestor-source-list"
+	| "no-value"
+	| "sandbox"
+	| "report-uri"
+	| "report-to"
+	| "require-trusted-types-for"
+	| "trusted-types"
+	| "webrtc";
+
+// Directives browsers understand (including deprecated ones still in use), by value grammar
+const DIRECTIVE_GRAMMARS: Record<string, DirectiveGrammar> = {
+	"default-src": "source-list",
+	"child-src": "source-list",
+	"connect-src": "source-list",
+	"fenced-frame-src": "source-list",
+	"font-src": "source-list",
+	"frame-src": "source-list",
+	"img-src": "source-list",
+	"manifest-src": "source-list",
+	"media-src": "source-list",
+	"object-src": "source-list",
+	"prefetch-src": "source-list",
+	"script-src": "source-list",
+	"script-src-elem": "source-list",
+	"script-src-attr": "source-list",
+	"style-src": "source-list",
+	"style-src-elem": "source-list",
+	"style-src-attr": "source-list",
+	"worker-src": "source-list",
+	"base-uri": "source-list",
+	"form-action": "source-list",
+	"navigate-to": "source-list",
+	"frame-ancestors": "ancestor-source-list",
+	sandbox: "sandbox",
+	"upgrade-insecure-requests": "no-value",
+	"block-all-mixed-content": "no-value",
+	"report-uri": "report-uri",
+	"report-to": "report-to",
+	"require-trusted-types-for": "require-trusted-types-for",
+	"trusted-types": "trusted-types",
+	webrtc: "webrtc",
+};
+
+const KEYWORDS = new Set([
+	"'self'",
+	"'none'",
+	"'unsafe-inline'",
+	"'unsafe-eval'",
+	"'strict-dynamic'",
+	"'unsafe-hashes'",
+	"'report-sample'",
+	"'unsafe-allow-redirects'",
+	"'wasm-unsafe-eval'",
+	"'trusted-types-eval'",
+	"'inline-speculation-rules'",
+	"'report-sha256'",
+	"'report-sha384'",
+	"'report-sha512'",
+]);
+
+const SANDBOX_TOKENS = new Set([
+	"allow-downloads",
+	"allow-forms",
+	"allow-modals",
+	"allow-orientation-lock",
+	"allow-pointer-lock",
+	"allow-popups",
+	"allow-popups-to-escape-sandbox",
+	"allow-presentation",
+	"allow-same-origin",
+	"allow-scripts",
+	"allow-storage-access-by-user-activation",
+	"allow-top-navigation",
+	"allow-top-navigation-by-user-activation",
+	"allow-top-navigation-to-custom-protocols",
+]);
+
+const NONCE_OR_HASH_SOURCE = /^'(nonce|sha256|sha384|sha512)-[A-Za-z0-9+/_-]+={0,2}'$/;
+const SCHEME_SOURCE = /^[A-Za-z][A-Za-z0-9+.-]*:$/;
+// [scheme "://"] host-part [port-part] [path-part]; paths can't start with "//" or contain ";" or ","
+const HOST_SOURCE =
+	/^(?:[A-Za-z][A-Za-z0-9+.-]*:\/\/)?(?:\*|(?:\*\.)?[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.?)(?::(?:\d+|\*))?(?:\/(?!\/)[A-Za-z0-9\-._~!$&'()*+=:@%/]*)?$/;
+const REPORT_TO_TOKEN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+const TRUSTED_TYPES_POLICY_NAME = /^[A-Za-z0-9\-#=_/@.%]+$/;
+
+/**
+ * Whether a directive name is one browsers understand
+ * @param directive - Directive name (lowercase)
+ * @returns true for CSP Level 3, Trusted Types, and deprecated-but-supported directives
+ */
+export function isKnownDirective(directive: string): boolean {
+	return directive in DIRECTIVE_GRAMMARS;
+}
+
+/**
+ * Edit distance between two strings (for "did you mean" suggestions)
+ */
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				(previous[j] ?? 0) + 1,
+				(current[j - 1] ?? 0) + 1,
+				(previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length] ?? 0;
+}
+
+/**
+ * Find the candidate within two edits of a misspelled name
+ */
+function closestMatch(value: string, candidates: Iterable<string>): string | undefined {
+	let best: { name: string; distance: number } | undefined;
+	for (const name of candidates) {
+		const distance = editDistance(value, name);
+		if (distance <= 2 && (!best || distance < best.distance)) {
+			best = { name, distance };
+		}
+	}
+	return best?.name;
+}
+
+type ValueIssue = Pick<CspValidationIssue, "message"> & { suggestion?: string };
+
+/**
+ * Explain why a source expression doesn't parse, with a fix when the mistake is recognizable
+ */
+function checkSourceExpression(value: string, ancestors: boolean): ValueIssue | undefined {
+	if (/\s/.test(value)) {
+		return { message: "contains whitespace (encode spaces in paths as %20)", suggestion: value.replace(/\s/g, "%20") };
+	}
+
+	// Unquoted keywords, nonces, and hashes parse as host names, so they are caught before the host grammar
+	if (KEYWORDS.has(`'${value}'`) || /^(nonce|sha256|sha384|sha512)-/.test(value)) {
+		return { message: "keywords, nonces, and hashes must be single-quoted", suggestion: `'${value}'` };
+	}
+
+	const schemeTypo = /^([A-Za-z][A-Za-z0-9+-]*)(?::\/(?!\/)|\/\/|:\/\/\/+)(.+)$/.exec(value);
+	if (schemeTypo) {
+		return {
+			message: "malformed scheme separator",
+			suggestion: `${schemeTypo[1]}://${schemeTypo[2]?.replace(/^\/+/, "")}`,
+		};
+	}
+
+	if (value.startsWith("'")) {
+		if (ancestors) {
+			return value === "'self'" || value === "'none'"
+				? undefined
+				: { message: "only 'self' and 'none' are allowed in frame-ancestors" };
+		}
+		if (KEYWORDS.has(value) || NONCE_OR_HASH_SOURCE.test(value)) return undefined;
+		if (KEYWORDS.has(value.toLowerCase())) {
+			return { message: "keywords are written in lowercase", suggestion: value.toLowerCase() };
+		}
+		const keyword = closestMatch(value, KEYWORDS);
+		return { message: "unknown keyword", ...(keyword ? { suggestion: keyword } : {}) };
+	}
+
+	if (SCHEME_SOURCE.test(value) || HOST_SOURCE.test(value)) return undefined;
+	return { message: "not a valid CSP source expression" };
+}
+
+/**
+ * Check a value against its directive's grammar
+ */
+function checkDirectiveValue(grammar: DirectiveGrammar, value: string): ValueIssue | undefined {
+	switch (grammar) {
+		case "source-list":
+			return checkSourceExpression(value, false);
+		case "ancestor-source-list":
+			return checkSourceExpression(value, true);
+		case "no-value":
+			return { message: "takes no value" };
+		case "sandbox":
+			return SANDBOX_TOKENS.has(value) ? undefined : { message: "unknown sandbox flag" };
+		case "report-uri":
+			return /[\s;,]/.test(value) ? { message: "not a valid URI" } : undefined;
+		case "report-to":
+			return REPORT_TO_TOKEN.test(value) ? undefined : { message: "not a valid endpoint name" };
+		case "require-trusted-types-for":
+			return value === "'script'"
+				? undefined
+				: { message: "only 'script' is allowed", ...(value === "script" ? { suggestion: "'script'" } : {}) };
+		case "trusted-types":
+			return value === "'none'" ||
+				value === "'allow-duplicates'" ||
+				value === "*" ||
+				TRUSTED_TYPES_POLICY_NAME.test(value)
+				? undefined
+				: { message: "not a valid policy name" };
+		case "webrtc":
+			return value === "'allow'" || value === "'block'" ? undefined : { message: "must be 'allow' or 'block'" };
+	}
+}
+
+/**
+ * Check a directive name and its values against the CSP Level 3 grammar
+ *
+ * Browsers ignore unknown directives and invalid source expressions (usually with only a
+ * console warning), so these mistakes otherwise ship unnoticed.
+ *
+ * @param directive - Directive name
+ * @param values - Individual values (an empty string stands for a valueless directive)
+ * @returns Issues found, without rule information
+ */
+export function validateDirectiveValues(
+	directive: string,
+	values: readonly string[],
+): Omit<CspValidationIssue, "ruleIndex" | "description">[] {
+	const grammar = DIRECTIVE_GRAMMARS[directive];
+	if (!grammar) {
+		const lower = directive.toLowerCase();
+		const suggestion = isKnownDirective(lower) ? lower : closestMatch(lower, Object.keys(DIRECTIVE_GRAMMARS));
+		return [
+			{
+				code: "unknown-directive",
+				directive,
+				message: `Unknown directive "${directive}"`,
+				...(suggestion ? { suggestion } : {}),
+			},
+		];
+	}
+
+	const issues: Omit<CspValidationIssue, "ruleIndex" | "description">[] = [];
+	for (const value of values) {
+		if (value === "") continue;
+		const issue = checkDirectiveValue(grammar, value);
+		if (issue) {
+			issues.push({
+				code: "invalid-value",
+				directive,
+				value,
+				message: `Invalid value "${value}" in "${directive}": ${issue.message}`,
+				...(issue.suggestion ? { suggestion: issue.suggestion } : {}),
+			});
+		}
+	}
+	return issues;
+}
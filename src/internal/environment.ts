@@ -0,0 +1,97 @@
+/**
+ * Environment profile utilities
+ * Resolves the deployment environment and selects the rules that apply to it
+ */
+
+import type {
+	CspEnvironment,
+	CspEnvironmentProfile,
+	CspRule,
+	HstsOptions,
+	PolicyAnalysisOptions,
+	SecurityOptions,
+} from "./types";
+
+/**
+ * Built-in profiles
+ * Only development and test relax scripts; preview and staging keep production scripts with a short HSTS max-age
+ * (no includeSubDomains or preload, so a shared parent domain isn't pinned).
+ */
+export const DEFAULT_ENVIRONMENT_PROFILES: Readonly<Record<CspEnvironment, CspEnvironmentProfile>> = {
+	development: { devTools: true, hsts: false },
+	test: { devTools: true, hsts: false },
+	preview: { devTools: false, hsts: { maxAge: 86400 } },
+	staging: { devTools: false, hsts: { maxAge: 86400 } },
+	production: { devTools: false },
+};
+
+/**
+ * Environment settings after applying the profile
+ */
+export interface ResolvedEnvironment {
+	env: CspEnvironment;
+	isDev: boolean;
+	/** HSTS setting from options or the profile (undefined keeps the caller's default) */
+	hsts: HstsOptions | false | undefined;
+}
+
+/**
+ * Resolve the environment and its profile from options
+ *
+ * `env` selects a profile (built-in, with `profiles` overrides); an explicit `hsts` option
+ * still wins over the profile. Without `env`, `isDev` (defaulting to NODE_ENV !== 'production')
+ * maps to "development" or "production" and HSTS is left to the caller, as before profiles existed.
+ *
+ * @param options - Security or analysis options
+ * @returns Environment name, dev-tooling flag, and HSTS setting
+ */
+export function resolveEnvironment(
+	options: Pick<SecurityOptions | PolicyAnalysisOptions, "env" | "isDev" | "profiles"> & {
+		hsts?: HstsOptions | false | undefined;
+	},
+): ResolvedEnvironment {
+	const { env, profiles, hsts } = options;
+
+	if (env === undefined) {
+		const isDev = options.isDev ?? process.env.NODE_ENV !== "production";
+		return { env: isDev ? "development" : "production", isDev, hsts };
+	}
+
+	const builtIn = DEFAULT_ENVIRONMENT_PROFILES[env];
+	if (!builtIn && !profiles?.[env]) {
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn(
+			`[@enalmada/start-secure] Unknown environment "${env}". Expected one of ${Object.keys(DEFAULT_ENVIRONMENT_PROFILES).join(", ")}; using the production profile.`,
+		);
+	}
+
+	const profile = { ...(builtIn ?? DEFAULT_ENVIRONMENT_PROFILES.production), ...profiles?.[env] };
+	return { env, isDev: profile.devTools ?? false, hsts: hsts ?? profile.hsts };
+}
+
+/**
+ * Whether a rule applies in an environment (its `env` list and `when` predicate)
+ * @param rule - Rule to check
+ * @param environment - Resolved environment
+ * @returns true if the rule should be merged
+ */
+export function ruleAppliesTo(rule: CspRule, environment: Pick<ResolvedEnvironment, "env" | "isDev">): boolean {
+	if (rule.env !== undefined) {
+		const envs: readonly CspEnvironment[] = typeof rule.env === "string" ? [rule.env] : rule.env;
+		if (!envs.includes(environment.env)) return false;
+	}
+	return rule.when ? rule.when({ env: environment.env, isDev: environment.isDev }) : true;
+}
+
+/**
+ * Keep the rules that apply in an environment
+ * @param rules - Rules with optional `env`/`when`
+ * @param environment - Resolved environment
+ * @returns Applicable rules, in order
+ */
+export function selectRulesForEnvironment<T extends CspRule>(
+	rules: readonly T[],
+	environment: Pick<ResolvedEnvironment, "env" | "isDev">,
+): T[] {
+	return rules.filter((rule) => ruleAppliesTo(rule, environment));
+}
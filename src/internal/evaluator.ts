@@ -0,0 +1,325 @@
+/**
+ * CSP policy evaluator
+ * Checks the final merged policy for known weaknesses, in the spirit of Google's CSP Evaluator
+ */
+
+import { compileForAnalysis } from "./compiler";
+import { getEffectiveDirective } from "./directives";
+import { parseCspHeader } from "./parser";
+import type { CspFinding, CspFindingSeverity, CspRule, PolicyAnalysisOptions } from "./types";
+
+const SEVERITY_ORDER: Record<CspFindingSeverity, number> = { high: 0, medium: 1, low: 2, info: 3 };
+
+// Hosts serving JSONP endpoints or AngularJS builds, which let an attacker run
+// arbitrary script through an allowlisted origin
+const SCRIPT_BYPASS_HOSTS = new Map([
+	["ajax.googleapis.com", "serves AngularJS and JSONP endpoints"],
+	["www.google.com", "serves JSONP endpoints"],
+	["accounts.google.com", "serves JSONP endpoints"],
+	["www.googleapis.com", "serves JSONP endpoints"],
+	["www.youtube.com", "serves JSONP endpoints"],
+	["cdnjs.cloudflare.com", "hosts AngularJS and other gadget libraries"],
+	["cdn.jsdelivr.net", "serves arbitrary npm packages and GitHub files"],
+	["unpkg.com", "serves arbitrary npm packages"],
+	["code.angularjs.org", "hosts AngularJS"],
+]);
+
+// Domains hosting user-uploaded content; allowlisting them (or any subdomain) allows attacker scripts
+const USER_CONTENT_DOMAINS = [
+	"googleusercontent.com",
+	"storage.googleapis.com",
+	"s3.amazonaws.com",
+	"github.io",
+	"githubusercontent.com",
+	"firebaseapp.com",
+	"herokuapp.com",
+];
+
+const SCRIPT_DIRECTIVES = ["script-src", "script-src-elem", "script-src-attr"];
+
+/**
+ * Extract the host part of a host-source (without scheme, port, or path)
+ */
+function getHost(source: string): string | undefined {
+	if (source.startsWith("'") || /^[a-z][a-z0-9+.-]*:$/i.test(source)) return undefined;
+	const match = /^(?:[a-z][a-z0-9+.-]*:\/\/)?([^/:]+)/i.exec(source);
+	return match?.[1]?.toLowerCase();
+}
+
+/**
+ * Whether a host pattern (possibly `*.`-prefixed) covers a concrete host or domain
+ */
+function hostCovers(pattern: string, host: string): boolean {
+	if (pattern === host) return true;
+	if (pattern.startsWith("*.")) {
+		const suffix = pattern.slice(1);
+		return host.endsWith(suffix) || `.${host}` === suffix;
+	}
+	return false;
+}
+
+/**
+ * Whether a wildcard host is so broad it covers a whole TLD or public suffix (e.g. *.com, *.co.uk)
+ */
+function isOverlyBroadWildcard(host: string): boolean {
+	if (!host.startsWith("*.")) return false;
+	const rest = host.slice(2);
+	return !rest.includes(".") || /^(co|com|org|net|gov|ac|edu)\.[a-z]{2}$/.test(rest);
+}
+
+const isNonceOrHash = (source: string) => /^'(nonce|sha256|sha384|sha512)-/.test(source);
+
+/**
+ * Evaluate one script directive
+ */
+function evaluateScriptDirective(directive: string, sources: readonly string[]): CspFinding[] {
+	const findings: CspFinding[] = [];
+	const hasNonceOrHash = sources.some(isNonceOrHash);
+	const hasStrictDynamic = sources.includes("'strict-dynamic'");
+	// CSP3 browsers ignore allowlists when 'strict-dynamic' is paired with a nonce or hash
+	const allowlistIgnored = hasStrictDynamic && hasNonceOrHash;
+	const allowlistSeverity = (severity: CspFindingSeverity): CspFindingSeverity => (allowlistIgnored ? "low" : severity);
+	const ignoredNote = allowlistIgnored ? " (ignored by CSP3 browsers because of 'strict-dynamic')" : "";
+
+	if (hasStrictDynamic && !hasNonceOrHash) {
+		findings.push({
+			id: "strict-dynamic-without-nonce",
+			severity: "medium",
+			directive,
+			value: "'strict-dynamic'",
+			message: "'strict-dynamic' without a nonce or hash trusts no script, so no script can load others.",
+		});
+	}
+
+	for (const source of sources) {
+		const host = getHost(source);
+
+		if (source === "'unsafe-inline'" && !hasNonceOrHash) {
+			findings.push({
+				id: "script-unsafe-inline",
+				severity: "high",
+				directive,
+				value: source,
+				message: "'unsafe-inline' allows any injected inline script to run. Use a nonce or hashes.",
+			});
+		} else if (source === "'unsafe-eval'") {
+			findings.push({
+				id: "script-unsafe-eval",
+				severity: "medium",
+				directive,
+				value: source,
+				message: "'unsafe-eval' allows eval() and new Function(), which turn string injection into script execution.",
+			});
+		} else if (source === "*") {
+			findings.push({
+				id: "script-wildcard",
+				severity: allowlistSeverity("high"),
+				directive,
+				value: source,
+				message: `"*" allows scripts from any origin${ignoredNote}.`,
+			});
+		} else if (source === "data:") {
+			findings.push({
+				id: "script-data-uri",
+				severity: allowlistSeverity("high"),
+				directive,
+				value: source,
+				message: `data: URIs let an attacker supply script inline${ignoredNote}.`,
+			});
+		} else if (source === "http:" || source === "https:") {
+			findings.push({
+				id: "script-scheme-source",
+				severity: allowlistSeverity("high"),
+				directive,
+				value: source,
+				message: `"${source}" allows scripts from any host over that scheme${ignoredNote}.`,
+			});
+		} else if (host) {
+			const bypass = Array.from(SCRIPT_BYPASS_HOSTS).find(([bypassHost]) => hostCovers(host, bypassHost));
+			const userContent = USER_CONTENT_DOMAINS.find(
+				(domain) => hostCovers(host, domain) || host.endsWith(`.${domain}`),
+			);
+
+			if (isOverlyBroadWildcard(host)) {
+				findings.push({
+					id: "broad-wildcard-host",
+					severity: allowlistSeverity("high"),
+					directive,
+					value: source,
+					message: `"${source}" allows scripts from every site under a public suffix${ignoredNote}.`,
+				});
+			} else if (bypass) {
+				findings.push({
+					id: "script-bypass-host",
+					severity: allowlistSeverity("high"),
+					directive,
+					value: source,
+					message: `${bypass[0]} ${bypass[1]}, which can be used to bypass this policy${ignoredNote}.`,
+				});
+			} else if (userContent) {
+				findings.push({
+					id: "script-user-content-host",
+					severity: allowlistSeverity("high"),
+					directive,
+					value: source,
+					message: `${userContent} hosts user-uploaded content, so anyone can serve script from it${ignoredNote}.`,
+				});
+			}
+		}
+	}
+
+	return findings;
+}
+
+/**
+ * Evaluate a directive map for known weaknesses
+ *
+ * @param directives - Final directive map (e.g. from parseCspHeader)
+ * @returns Findings sorted by severity (most severe first)
+ */
+export function evaluateCspDirectives(directives: Record<string, readonly string[]>): CspFinding[] {
+	const findings: CspFinding[] = [];
+
+	if (!directives["default-src"]) {
+		findings.push({
+			id: "missing-default-src",
+			severity: "medium",
+			directive: "default-src",
+			message: "No default-src: any fetch directive you don't set explicitly is unrestricted.",
+		});
+	}
+
+	// object-src: plugins can execute script
+	const objectSrc = getEffectiveDirective(directives, "object-src");
+	if (!objectSrc) {
+		findings.push({
+			id: "missing-object-src",
+			severity: "high",
+			directive: "object-src",
+			message:
+				"No object-src (or default-src): plugins such as <object> and <embed> can load script. Set object-src 'none'.",
+		});
+	} else if (!(objectSrc.sources.length === 1 && objectSrc.sources[0] === "'none'")) {
+		findings.push({
+			id: "permissive-object-src",
+			severity: "medium",
+			directive: objectSrc.directive,
+			message: "object-src allows plugin content. Set object-src 'none' unless you need <object>/<embed>.",
+		});
+	}
+
+	// base-uri: <base> injection redirects relative script URLs (even nonce-bearing ones)
+	if (!directives["base-uri"]) {
+		findings.push({
+			id: "missing-base-uri",
+			severity: "high",
+			directive: "base-uri",
+			message: "No base-uri: an injected <base> tag can redirect relative script URLs. Set base-uri 'self' or 'none'.",
+		});
+	}
+
+	// Script directives: report each issue once, under the first directive it appears in
+	const seen = new Set<string>();
+	for (const name of SCRIPT_DIRECTIVES) {
+		// script-src resolves through default-src; granular directives only when set explicitly
+		const effective = name === "script-src" ? getEffectiveDirective(directives, name) : undefined;
+		const sources = name === "script-src" ? effective?.sources : directives[name];
+		if (!sources) {
+			if (name === "script-src") {
+				findings.push({
+					id: "missing-script-src",
+					severity: "high",
+					directive: "script-src",
+					message: "No script-src (or default-src): scripts from any origin can run.",
+				});
+			}
+			continue;
+		}
+
+		for (const finding of evaluateScriptDirective(effective?.directive ?? name, sources)) {
+			const key = `${finding.id}|${finding.value ?? ""}`;
+			if (seen.has(key)) continue;
+			seen.add(key);
+			findings.push(finding);
+		}
+	}
+
+	for (const [directive, sources] of Object.entries(directives)) {
+		if (SCRIPT_DIRECTIVES.includes(directive)) continue;
+
+		for (const source of sources) {
+			const host = getHost(source);
+			if (source === "*") {
+				findings.push({
+					id: "wildcard-source",
+					severity: "medium",
+					directive,
+					value: source,
+					message: `"*" in ${directive} allows any origin. Consider listing specific origins.`,
+				});
+			} else if (host && isOverlyBroadWildcard(host)) {
+				findings.push({
+					id: "broad-wildcard-host",
+					severity: "medium",
+					directive,
+					value: source,
+					message: `"${source}" matches every site under a public suffix.`,
+				});
+			} else if (
+				source === "http:" ||
+				(source.startsWith("http://") && !/^http:\/\/(localhost|127\.0\.0\.1)\b/.test(source))
+			) {
+				findings.push({
+					id: "insecure-scheme",
+					severity: "medium",
+					directive,
+					value: source,
+					message: `"${source}" loads content over plain HTTP, which can be modified in transit.`,
+				});
+			}
+		}
+	}
+
+	const styleSrc = getEffectiveDirective(directives, "style-src");
+	if (styleSrc?.sources.includes("'unsafe-inline'")) {
+		findings.push({
+			id: "style-unsafe-inline",
+			severity: "info",
+			directive: styleSrc.directive,
+			value: "'unsafe-inline'",
+			message: "Inline styles are allowed, which permits CSS injection (e.g. attribute-selector data exfiltration).",
+		});
+	}
+
+	if (!directives["report-uri"] && !directives["report-to"]) {
+		findings.push({
+			id: "missing-reporting",
+			severity: "info",
+			directive: "report-to",
+			message: "No report-uri or report-to: violations in production will go unnoticed.",
+		});
+	}
+
+	return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Evaluate a policy for known weaknesses
+ *
+ * Runs on the final merged policy (rules are compiled exactly as the middleware does),
+ * or on an existing header string.
+ *
+ * @param policy - CSP rules, or a CSP header value
+ * @param options - Environment and nonce to compile rules with
+ * @returns Findings sorted by severity (most severe first)
+ *
+ * @example
+ * ```typescript
+ * const findings = evaluatePolicy(cspRules, { isDev: false });
+ * expect(findings.filter((f) => f.severity === 'high')).toEqual([]);
+ * ```
+ */
+export function evaluatePolicy(policy: readonly CspRule[] | string, options: PolicyAnalysisOptions = {}): CspFinding[] {
+	const directives = typeof policy === "string" ? parseCspHeader(policy) : compileForAnalysis(policy, options);
+	return evaluateCspDirectives(directives);
+}
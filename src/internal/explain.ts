@@ -0,0 +1,50 @@
+/**
+ * Policy provenance utilities
+ * Explains which default or rule contributed each source in the final policy
+ */
+
+import { compileForAnalysis } from "./compiler";
+import type { PolicyProvenance } from "./merger";
+import type { CspRule, ExplainedSource, PolicyAnalysisOptions } from "./types";
+
+/**
+ * Options for explaining a policy
+ * Alias of `PolicyAnalysisOptions`, kept for existing imports.
+ */
+export type ExplainPolicyOptions = PolicyAnalysisOptions;
+
+/**
+ * Explain where every source in the final policy came from
+ *
+ * Compiles the rules exactly as the middleware does, recording for each directive
+ * and source expression whether it came from the defaults or from a rule
+ * (identified by index, `description`, and `source`).
+ *
+ * @param rules - CSP rules to explain
+ * @param options - Environment and nonce to compile with
+ * @returns Directive map of explained sources, in header order
+ *
+ * @example
+ * ```typescript
+ * const explanation = explainPolicy(cspRules, { isDev: false });
+ * explanation['connect-src'].find((s) => s.value === 'https://*.googleusercontent.com');
+ * // { value: 'https://*.googleusercontent.com',
+ * //   addedBy: [{ kind: 'rule', ruleIndex: 0, description: 'google-auth' }] }
+ * ```
+ */
+export function explainPolicy(
+	rules: readonly CspRule[],
+	options: PolicyAnalysisOptions = {},
+): Record<string, ExplainedSource[]> {
+	const provenance: PolicyProvenance = {};
+	const directives = compileForAnalysis(rules, options, provenance);
+
+	return Object.fromEntries(
+		Object.entries(directives).map(([directive, values]) => {
+			const origins = provenance[directive];
+			// Valueless directives are explained through their empty-string entry
+			const explainedValues = values.length > 0 ? values : [""];
+			return [directive, explainedValues.map((value) => ({ value, addedBy: origins?.get(value) ?? [] }))];
+		}),
+	);
+}
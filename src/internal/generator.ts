@@ -4,8 +4,15 @@
  * Handles nonce generation and policy compilation
  */
 
-import { defaultSecurityHeadersConfig, getDefaultCspDirectives } from "./defaults";
-import { mergeDirectivesWithDefaults } from "./merger";
+import { compileCspPolicy } from "./compiler";
+import { resolveCrossOriginHeaders, warnOnCrossOriginConflicts } from "./cross-origin";
+import { compileNonceTemplate, NONCE_PLACEHOLDER } from "./csp-builder";
+import { defaultSecurityHeadersConfig, validateNonce } from "./defaults";
+import { resolveEnvironment, selectRulesForEnvironment } from "./environment";
+import { buildHstsHeader } from "./hsts";
+import { buildPermissionsPolicy } from "./permissions-policy";
+import { buildReportingHeaders } from "./reporting-endpoints";
+import { resolveTrustedTypes } from "./trusted-types";
 import type { CspRule, SecurityHeaders, SecurityOptions } from "./types";
 
 /**
@@ -15,42 +22,103 @@ import type { CspRule, SecurityHeaders, SecurityOptions } from "./types";
  * @returns Complete set of security headers
  */
 export function generateSecurityHeaders(rules: CspRule[] = [], options: SecurityOptions = {}): SecurityHeaders {
-	const { isDev = process.env.NODE_ENV !== "production", nonce, headerConfig } = options;
-
-	// Get default CSP directives with environment-specific adjustments
-	const defaultDirectives = getDefaultCspDirectives(isDev, nonce);
-
-	// Merge default directives with user rules (with validation)
-	const mergedDirectives = mergeDirectivesWithDefaults(defaultDirectives, rules, isDev);
-
-	// Generate CSP header value from Sets
-	const cspValue = Object.entries(mergedDirectives)
-		.map(([key, valueSet]) => {
-			const values = Array.from(valueSet);
-			// Handle boolean directives (empty string in Set) and directives with values
-			if (values.length === 0 || (values.length === 1 && values[0] === "")) {
-				return key; // Boolean directive or empty - just the directive name
-			}
-			// Remove empty strings and join
-			const filteredValues = values.filter((v) => v !== "");
-			return filteredValues.length > 0 ? `${key} ${filteredValues.join(" ")}` : key;
-		})
-		.join("; ");
-
-	// Warn if CSP header is very large
-	if (cspValue.length > 4000) {
+	const { nonce } = options;
+
+	// Validate a caller-supplied nonce (generated nonces are always valid)
+	if (nonce && !validateNonce(nonce)) {
 		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
 		console.warn(
-			`[@enalmada/start-secure] Large CSP header detected (${cspValue.length} bytes). Some browsers/proxies have limits around 4-8KB. Consider reducing rules.`,
-		);
-	}
-	if (cspValue.length > 8000) {
-		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
-		console.error(
-			`[@enalmada/start-secure] CSP header is very large (${cspValue.length} bytes). This may be rejected by browsers/proxies. Maximum ~8KB recommended.`,
+			"[@enalmada/start-secure] Invalid nonce detected. See warnings above. " +
+				"Nonces should be cryptographically random, at least 128 bits, and generated per-request.",
 		);
 	}
 
+	return buildSecurityHeaders(rules, options);
+}
+
+/**
+ * Compile security headers into a template rendered with a fresh nonce per request
+ *
+ * Everything is resolved once; each render only substitutes the nonce (in the CSP,
+ * any report-only policy, and x-nonce).
+ *
+ * @param rules - Array of CSP rules to apply
+ * @param options - Security configuration options (`nonce` is ignored)
+ * @returns Function producing the headers for a nonce
+ */
+export function compileSecurityHeadersTemplate(
+	rules: CspRule[] = [],
+	options: SecurityOptions = {},
+): (nonce: string) => SecurityHeaders {
+	const compiled = buildSecurityHeaders(rules, { ...options, nonce: NONCE_PLACEHOLDER });
+	const templates = Object.entries(compiled).map(([name, value]) => [name, compileNonceTemplate(value)] as const);
+
+	return (nonce) => {
+		const headers = { ...compiled };
+		for (const [name, template] of templates) {
+			headers[name as keyof SecurityHeaders] = template.render(nonce);
+		}
+		return headers;
+	};
+}
+
+/**
+ * Generates security headers for static hosting, where no per-request nonce is possible
+ *
+ * Scripts are trusted by 'self' and the rules' `hashes.scripts` only; the 'unsafe-inline'
+ * fallback used without a nonce is dropped. Defaults to production (`isDev: false`).
+ *
+ * @param rules - Array of CSP rules to apply
+ * @param options - Security configuration options (`nonce` is ignored)
+ * @returns Complete set of security headers
+ */
+export function generateStaticSecurityHeaders(rules: CspRule[] = [], options: SecurityOptions = {}): SecurityHeaders {
+	const { nonce: _nonce, ...staticOptions } = options;
+	return buildSecurityHeaders(rules, { ...staticOptions, isDev: options.isDev ?? false }, true);
+}
+
+/**
+ * Build security headers without validating the nonce
+ */
+function buildSecurityHeaders(allRules: CspRule[], options: SecurityOptions, hashOnlyScripts = false): SecurityHeaders {
+	const {
+		nonce,
+		headerConfig,
+		styles,
+		inlineStyleAttributes,
+		trustedTypes,
+		reporting,
+		crossOrigin,
+		devServer,
+		optimize,
+		headerBudget,
+		strict,
+	} = options;
+
+	// Environment profile: dev relaxations, HSTS, and which rules apply
+	const environment = resolveEnvironment(options);
+	const { isDev, hsts } = environment;
+	const rules = selectRulesForEnvironment(allRules, environment);
+
+	// Compile the policy with the same compiler the middleware uses
+	const reportingPolicy = reporting ? buildReportingHeaders(reporting, rules) : undefined;
+	const reportingRules = reportingPolicy?.rule ? [...rules, reportingPolicy.rule] : rules;
+	const trustedTypesPolicy = resolveTrustedTypes(trustedTypes, reportingRules, isDev);
+	const cspValue = compileCspPolicy(
+		trustedTypesPolicy.rule ? [...reportingRules, trustedTypesPolicy.rule] : reportingRules,
+		{
+			isDev,
+			nonce,
+			styles,
+			inlineStyleAttributes,
+			hashOnlyScripts,
+			devServer,
+			optimize,
+			headerBudget,
+			strict,
+		},
+	);
+
 	// Merge default config with provided overrides, filtering out undefined values
 	const finalConfig = {
 		...defaultSecurityHeadersConfig,
@@ -66,10 +134,37 @@ export function generateSecurityHeaders(rules: CspRule[] = [], options: Security
 		"X-Content-Type-Options": finalConfig["X-Content-Type-Options"],
 		"Referrer-Policy": finalConfig["Referrer-Policy"],
 		"X-XSS-Protection": finalConfig["X-XSS-Protection"],
-		"Strict-Transport-Security": finalConfig["Strict-Transport-Security"],
-		"Permissions-Policy": finalConfig["Permissions-Policy"],
+		// An explicit header string wins over rule-based permissions
+		"Permissions-Policy": headerConfig?.["Permissions-Policy"] ?? buildPermissionsPolicy(rules),
 	};
 
+	// HSTS: an explicit header string wins over structured options
+	const hstsValue = headerConfig?.["Strict-Transport-Security"] ?? (hsts === false ? undefined : buildHstsHeader(hsts));
+	if (hstsValue !== undefined) {
+		headers["Strict-Transport-Security"] = hstsValue;
+	}
+
+	if (trustedTypesPolicy.reportOnlyPolicy) {
+		headers["Content-Security-Policy-Report-Only"] = trustedTypesPolicy.reportOnlyPolicy;
+	}
+
+	Object.assign(headers, reportingPolicy?.headers);
+
+	// Cross-origin isolation: preset first, explicit headerConfig values win
+	const crossOriginHeaders = crossOrigin ? resolveCrossOriginHeaders(crossOrigin) : {};
+	for (const name of [
+		"Cross-Origin-Opener-Policy",
+		"Cross-Origin-Embedder-Policy",
+		"Cross-Origin-Resource-Policy",
+	] as const) {
+		const value = headerConfig?.[name];
+		if (value !== undefined) {
+			crossOriginHeaders[name] = value;
+		}
+	}
+	warnOnCrossOriginConflicts(crossOriginHeaders, cspValue);
+	Object.assign(headers, crossOriginHeaders);
+
 	// Only add optional headers if explicitly set
 	if (headerConfig?.["X-Powered-By"] !== undefined) {
 		headers["X-Powered-By"] = headerConfig["X-Powered-By"];
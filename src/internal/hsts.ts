@@ -0,0 +1,121 @@
+/**
+ * Strict-Transport-Security utilities
+ * Builds the HSTS header from structured options and decides when it can be sent
+ */
+
+import type { HstsOptions } from "./types";
+
+// hstspreload.org requires at least one year
+const PRELOAD_MIN_MAX_AGE = 31536000;
+
+const DEFAULT_HSTS_OPTIONS: HstsOptions = { maxAge: 31536000, includeSubDomains: true, preload: true };
+
+/**
+ * Warn about a misconfigured HSTS option
+ */
+function warnHsts(message: string): void {
+	// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+	console.warn(`[@enalmada/start-secure] ${message}`);
+}
+
+/**
+ * Build a Strict-Transport-Security header value
+ *
+ * Validates `preload` against the hstspreload.org requirements (max-age of at least one year
+ * and includeSubDomains) and drops it with a warning when they aren't met.
+ *
+ * @param options - HSTS options (optional, defaults to one year with includeSubDomains and preload)
+ * @returns Strict-Transport-Security header value
+ *
+ * @example
+ * ```typescript
+ * buildHstsHeader({ maxAge: 63072000, includeSubDomains: true });
+ * // 'max-age=63072000; includeSubDomains'
+ * ```
+ */
+export function buildHstsHeader(options: HstsOptions = DEFAULT_HSTS_OPTIONS): string {
+	let { maxAge = PRELOAD_MIN_MAX_AGE, includeSubDomains = false, preload = false } = options;
+
+	if (!Number.isInteger(maxAge) || maxAge < 0) {
+		warnHsts(
+			`Invalid HSTS maxAge ${maxAge}. Expected a non-negative whole number of seconds; using ${PRELOAD_MIN_MAX_AGE}.`,
+		);
+		maxAge = PRELOAD_MIN_MAX_AGE;
+	}
+
+	if (preload) {
+		const problems = [
+			...(maxAge < PRELOAD_MIN_MAX_AGE ? [`maxAge of at least ${PRELOAD_MIN_MAX_AGE} (got ${maxAge})`] : []),
+			...(!includeSubDomains ? ["includeSubDomains"] : []),
+		];
+		if (problems.length > 0) {
+			warnHsts(`HSTS preload requires ${problems.join(" and ")} (see hstspreload.org). Omitting preload.`);
+			preload = false;
+		}
+	}
+
+	return [
+		`max-age=${maxAge}`,
+		...(includeSubDomains ? ["includeSubDomains"] : []),
+		...(preload ? ["preload"] : []),
+	].join("; ");
+}
+
+/**
+ * Whether a host is localhost or a loopback address (clearly a local request)
+ */
+function isLocalHost(host: string): boolean {
+	return host === "localhost" || host.endsWith(".localhost") || /^127(\.\d{1,3}){3}$/.test(host) || host === "::1";
+}
+
+/**
+ * Whether a host is localhost or an IP address (browsers ignore HSTS for these)
+ */
+function isLocalOrIpHost(host: string): boolean {
+	return isLocalHost(host) || /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":"); // IPv6
+}
+
+/**
+ * Hostname without IPv6 brackets, lowercased
+ */
+function normalizeHost(hostname: string): string {
+	return hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Whether HSTS should be sent for a request
+ *
+ * By default HSTS is sent everywhere except clearly local requests (localhost and loopback),
+ * because behind a TLS-terminating proxy the request URL is often `http:` and an internal host;
+ * browsers ignore the header over plain HTTP anyway. With `trustProxy`, protocol and host come
+ * from `X-Forwarded-Proto`/`X-Forwarded-Host` (client-supplied unless the proxy overwrites them),
+ * and plain-HTTP requests and IP hosts are skipped too.
+ *
+ * @param request - Incoming request
+ * @param options - `trustProxy` to take protocol and host from a TLS-terminating proxy's headers
+ * @returns true if the response may carry Strict-Transport-Security
+ */
+export function shouldSendHsts(request: Request, options: { trustProxy?: boolean } = {}): boolean {
+	const url = new URL(request.url);
+	if (!options.trustProxy) {
+		return !isLocalHost(normalizeHost(url.hostname));
+	}
+
+	const forwarded = (name: string) => request.headers.get(name)?.split(",")[0]?.trim() || undefined;
+	const forwardedProto = forwarded("x-forwarded-proto")?.toLowerCase();
+	const protocol = forwardedProto ? `${forwardedProto}:` : url.protocol;
+	if (protocol !== "https:") {
+		return false;
+	}
+
+	let host = url.hostname;
+	const forwardedHost = forwarded("x-forwarded-host");
+	if (forwardedHost) {
+		try {
+			host = new URL(`https://${forwardedHost}`).hostname;
+		} catch {
+			// Malformed header: fall back to the request URL's host
+		}
+	}
+	return !isLocalOrIpHost(normalizeHost(host));
+}
@@ -3,7 +3,48 @@
  * Handles merging and deduplication of CSP directives
  */
 
-import type { CspRule } from "./types";
+import { validateDirectiveValues } from "./directives";
+import type { CspRule, CspValidationIssue, PolicySourceOrigin } from "./types";
+import { formatValidationIssue } from "./validation";
+
+/**
+ * Records which default or rule added each source (directive → source → origins)
+ */
+export type PolicyProvenance = Record<string, Map<string, PolicySourceOrigin[]>>;
+
+/**
+ * Record that an origin added a source to a directive
+ */
+export function recordOrigin(
+	provenance: PolicyProvenance | undefined,
+	directive: string,
+	value: string,
+	...origins: PolicySourceOrigin[]
+): void {
+	if (!provenance) return;
+	provenance[directive] ??= new Map();
+	const existing = provenance[directive].get(value);
+	if (existing) {
+		existing.push(...origins);
+	} else {
+		provenance[directive].set(value, [...origins]);
+	}
+}
+
+// CspRule fields that are not CSP directives
+const RULE_METADATA_KEYS = new Set(["description", "source", "hashes", "permissions", "env", "when"]);
+
+/**
+ * Describe a rule as a provenance origin
+ */
+export function ruleOrigin(rule: CspRule, ruleIndex: number): PolicySourceOrigin {
+	return {
+		kind: "rule",
+		ruleIndex,
+		...(rule.description !== undefined ? { description: rule.description } : {}),
+		...(rule.source !== undefined ? { source: rule.source } : {}),
+	};
+}
 
 // const DANGEROUS_VALUES = new Set(["'unsafe-eval'", "'unsafe-inline'", '*']);
 const DANGEROUS_IN_PROD = new Set(["'unsafe-eval'"]);
@@ -19,6 +60,9 @@ const DIRECTIVES_WITHOUT_SELF = new Set([
 	"trusted-types",
 ]);
 
+// Directives that are valid without any value (an empty string enables them)
+const VALUELESS_DIRECTIVES = new Set(["upgrade-insecure-requests", "block-all-mixed-content", "sandbox"]);
+
 /**
  * Validates CSP values and warns about dangerous configurations
  * @param directive - The CSP directive name
@@ -48,47 +92,102 @@ function validateCspValue(directive: string, value: string, isDev: boolean, rule
 	}
 }
 
+/**
+ * Split a rule's directive entries into individual values
+ * Boolean and empty-string values become a single empty string (directive with no value).
+ */
+function getRuleDirectives(rule: CspRule): [directive: string, values: string[]][] {
+	const directives: [string, string[]][] = [];
+
+	for (const [key, value] of Object.entries(rule)) {
+		// Skip non-CSP fields
+		if (RULE_METADATA_KEYS.has(key) || value === undefined) {
+			continue;
+		}
+		const directiveValue = value as string | readonly string[] | boolean;
+
+		// Handle boolean, array, and string values
+		let values: string[];
+		if (typeof directiveValue === "boolean") {
+			if (!directiveValue) continue; // Skip false values
+			values = [""]; // true becomes empty string (directive with no value)
+		} else if (typeof directiveValue !== "string") {
+			// Trim whitespace from array values and filter out empty strings
+			values = directiveValue.map((v) => v.trim()).filter((v) => v !== "");
+		} else if (directiveValue.trim() === "") {
+			// Empty string means boolean directive (ignored for directives that need values)
+			if (!VALUELESS_DIRECTIVES.has(key)) continue;
+			values = [""];
+		} else {
+			values = directiveValue.split(/\s+/).filter(Boolean);
+		}
+
+		directives.push([key, values]);
+	}
+
+	return directives;
+}
+
+/**
+ * Check rules against the CSP Level 3 grammar
+ *
+ * Finds unknown directive names and values browsers would ignore, such as `self` without
+ * quotes, unquoted nonces, `https//cdn.example.com`, and paths containing spaces.
+ *
+ * @param rules - CSP rules to check
+ * @returns Issues found, in rule order (empty if the rules are valid)
+ *
+ * @example
+ * ```typescript
+ * validateCspRules([{ 'script-src': 'self https//cdn.example.com' }]);
+ * // [{ code: 'invalid-value', value: 'self', suggestion: "'self'", ... }, ...]
+ * ```
+ */
+export function validateCspRules(rules: readonly CspRule[]): CspValidationIssue[] {
+	return rules.flatMap((rule, ruleIndex) =>
+		getRuleDirectives(rule).flatMap(([directive, values]) =>
+			validateDirectiveValues(directive, values).map((issue) => ({
+				...issue,
+				ruleIndex,
+				...(rule.description !== undefined ? { description: rule.description } : {}),
+			})),
+		),
+	);
+}
+
 /**
  * Merges multiple CSP rules with automatic deduplication
  * @param rules - Array of CSP rules to merge
  * @param isDev - Whether in development mode (for validation warnings)
  * @returns Record of directives with deduplicated values in Sets
  */
-export function mergeCspRules(rules: CspRule[], isDev = false): Record<string, Set<string>> {
+export function mergeCspRules(rules: readonly CspRule[], isDev = false): Record<string, Set<string>> {
 	const merged: Record<string, Set<string>> = {};
 
 	for (const rule of rules) {
-		for (const [key, value] of Object.entries(rule)) {
-			// Skip non-CSP fields
-			if (key === "description" || key === "source" || value === undefined) {
-				continue;
-			}
-
-			if (!merged[key]) {
-				merged[key] = new Set();
-			}
-
-			// Handle boolean, array, and string values
-			let values: string[];
-			if (typeof value === "boolean") {
-				if (!value) continue; // Skip false values
-				values = [""]; // true becomes empty string (directive with no value)
-			} else if (Array.isArray(value)) {
-				// Trim whitespace from array values and filter out empty strings
-				values = value.map((v) => v.trim()).filter((v) => v !== "");
-			} else if (value === "") {
-				// Empty string means boolean directive
-				values = [""];
-			} else {
-				values = value.split(/\s+/).filter(Boolean);
+		for (const [key, directiveValues] of getRuleDirectives(rule)) {
+			// Grammar problems are warnings here; strict mode rejects them before merging
+			for (const issue of validateDirectiveValues(key, directiveValues)) {
+				// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+				console.warn(
+					`[@enalmada/start-secure] ${formatValidationIssue({
+						...issue,
+						...(rule.description !== undefined ? { description: rule.description } : {}),
+					})}`,
+				);
 			}
 
 			// Special handling for 'none' keyword - if it's mixed with other values, remove it
 			// because 'none' must be the only value for a directive
+			let values = directiveValues;
 			if (values.length > 1 && values.includes("'none'")) {
 				values = values.filter((v) => v !== "'none'");
 			}
 
+			if (!merged[key]) {
+				merged[key] = new Set();
+			}
+
 			for (const val of values) {
 				// Validate CSP value (skip validation for empty string from boolean directives)
 				if (val !== "") {
@@ -107,52 +206,66 @@ export function mergeCspRules(rules: CspRule[], isDev = false): Record<string, S
  * @param defaultDirectives - Default CSP directives
  * @param userRules - User-provided CSP rules
  * @param isDev - Whether in development mode (for validation warnings)
+ * @param provenance - Optional recorder for where each source came from
  * @returns Merged directives with Sets for deduplication
  */
 export function mergeDirectivesWithDefaults(
 	defaultDirectives: Record<string, string[]>,
-	userRules: CspRule[],
+	userRules: readonly CspRule[],
 	isDev = false,
+	provenance?: PolicyProvenance,
 ): Record<string, Set<string>> {
 	const mergedDirectives: Record<string, Set<string>> = {};
 
 	// Initialize sets with default directives
 	for (const [key, values] of Object.entries(defaultDirectives)) {
 		mergedDirectives[key] = new Set(values);
+		for (const value of values) {
+			recordOrigin(provenance, key, value, { kind: "default" });
+		}
 	}
 
-	// Merge user rules with validation
-	const userDirectives = mergeCspRules(userRules, isDev);
-	for (const [key, values] of Object.entries(userDirectives)) {
-		// Skip if values is empty (happens when boolean directive is false)
-		if (values.size === 0) {
-			continue;
-		}
+	// Merge user rules one at a time (with validation) so a later rule that sets
+	// a directive to 'none' replaces what earlier rules added
+	for (const [ruleIndex, rule] of userRules.entries()) {
+		const ruleDirectives = mergeCspRules([rule], isDev);
+		for (const [key, values] of Object.entries(ruleDirectives)) {
+			// Skip if values is empty (happens when boolean directive is false)
+			if (values.size === 0) {
+				continue;
+			}
 
-		if (!mergedDirectives[key]) {
-			// Only add 'self' for source-list directives, not for special directives
-			if (DIRECTIVES_WITHOUT_SELF.has(key)) {
-				mergedDirectives[key] = new Set();
-			} else {
-				mergedDirectives[key] = new Set(["'self'"]);
+			if (!mergedDirectives[key]) {
+				// Only add 'self' for source-list directives, not for special directives
+				if (DIRECTIVES_WITHOUT_SELF.has(key)) {
+					mergedDirectives[key] = new Set();
+				} else {
+					mergedDirectives[key] = new Set(["'self'"]);
+					recordOrigin(provenance, key, "'self'", {
+						kind: "implicit",
+						ruleIndex,
+						...(rule.description !== undefined ? { description: rule.description } : {}),
+					});
+				}
 			}
-		}
 
-		// Convert Set to array for easier checking
-		const valuesArray = Array.from(values);
+			// Special handling for 'none' keyword which must be the only value
+			// If we're adding ONLY 'none', clear the directive and set it to 'none'
+			if (values.has("'none'")) {
+				mergedDirectives[key] = new Set(["'none'"]);
+				if (provenance) {
+					provenance[key] = new Map([["'none'", [ruleOrigin(rule, ruleIndex)]]]);
+				}
+				continue;
+			}
 
-		// Special handling for 'none' keyword which must be the only value
-		// If we're adding new values and 'none' exists in merged directives, remove it
-		if (valuesArray.length > 0 && !valuesArray.includes("'none'") && mergedDirectives[key].has("'none'")) {
+			// If we're adding other values and the directive has 'none', remove it
 			mergedDirectives[key].delete("'none'");
-		}
-
-		// If we're adding 'none', clear all other values first
-		if (valuesArray.includes("'none'")) {
-			mergedDirectives[key].clear();
-		}
-		for (const value of values) {
-			mergedDirectives[key].add(value);
+			provenance?.[key]?.delete("'none'");
+			for (const value of values) {
+				mergedDirectives[key].add(value);
+				recordOrigin(provenance, key, value, ruleOrigin(rule, ruleIndex));
+			}
 		}
 	}
 
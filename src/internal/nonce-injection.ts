@@ -0,0 +1,175 @@
+/**
+ * Streaming HTML nonce injection
+ * Adds a nonce attribute to script/style tags as the response streams, without buffering the body
+ */
+
+/**
+ * Options for nonce injection
+ */
+export interface NonceInjectionOptions {
+	/** Emit `<meta property="csp-nonce" nonce="…">` right after `<head>` (read by Vite and other runtimes) */
+	meta?: boolean;
+	/**
+	 * Where tags get the nonce (defaults to "head")
+	 * "head" stops at `</head>` or `<body>`; "document" covers the whole page, including any HTML an
+	 * injection bug lets an attacker write into the body, so only use it for fully trusted output.
+	 */
+	scope?: "head" | "document";
+}
+
+// Longest tag we hold back waiting for its closing `>`; anything longer is passed through untouched
+const MAX_PENDING_TAG = 16 * 1024;
+
+/**
+ * Find the `>` that ends a tag starting at `start`, skipping quoted attribute values
+ * @returns Index of the `>`, or -1 if the tag isn't complete yet
+ */
+function findTagEnd(html: string, start: number): number {
+	let quote: string | undefined;
+	for (let i = start + 1; i < html.length; i++) {
+		const char = html[i];
+		if (quote) {
+			if (char === quote) quote = undefined;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === ">") {
+			return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Whether a `<link>` tag loads script (preload as=script or modulepreload)
+ */
+function isScriptLink(tag: string): boolean {
+	const rel = /\srel\s*=\s*["']?([^"'\s>]+)/i.exec(tag)?.[1]?.toLowerCase();
+	const as = /\sas\s*=\s*["']?([^"'\s>]+)/i.exec(tag)?.[1]?.toLowerCase();
+	return rel === "modulepreload" || (rel === "preload" && as === "script");
+}
+
+/**
+ * Create a transform that adds `nonce` to `<script>`, `<style>`, and script `<link>` preloads lacking one
+ *
+ * Works chunk by chunk: only an incomplete tag at the end of a chunk is held back.
+ * Contents of script/style elements and comments are passed through unchanged.
+ *
+ * Security: any tag the transform reaches is trusted, including tags an attacker injects through
+ * an HTML-injection bug, which makes the nonce no stronger than 'unsafe-inline' there. By default
+ * only the document head (up to `</head>` or `<body>`) is rewritten; never use `scope: "document"`
+ * on pages that render untrusted HTML.
+ *
+ * @param nonce - Nonce for this response
+ * @param options - Injection options
+ * @returns TransformStream for an HTML response body
+ *
+ * @example
+ * ```typescript
+ * const body = response.body?.pipeThrough(createNonceInjectionStream(nonce, { meta: true }));
+ * ```
+ */
+export function createNonceInjectionStream(
+	nonce: string,
+	options: NonceInjectionOptions = {},
+): TransformStream<Uint8Array, Uint8Array> {
+	const decoder = new TextDecoder();
+	const encoder = new TextEncoder();
+	const nonceAttribute = ` nonce="${nonce.replace(/[&"<>]/g, (char) => `&#${char.charCodeAt(0)};`)}"`;
+
+	let pending = "";
+	// Raw text element (script/style) we are inside, if any
+	let rawTextElement: string | undefined;
+	let metaEmitted = !options.meta;
+	// Past the head, tags are no longer trusted (unless scope is "document")
+	let injecting = true;
+
+	const rewriteTag = (tag: string): string => {
+		const name = /^<([a-z][a-z0-9-]*)/i.exec(tag)?.[1]?.toLowerCase();
+		if (options.scope !== "document" && (name === "body" || /^<\/head[\s>]/i.test(tag))) {
+			injecting = false;
+		}
+
+		if (name === "head" && !metaEmitted) {
+			metaEmitted = true;
+			return `${tag}<meta property="csp-nonce"${nonceAttribute}>`;
+		}
+
+		const needsNonce = name === "script" || name === "style" || (name === "link" && isScriptLink(tag));
+		if (name === "script" || name === "style") {
+			if (!tag.endsWith("/>")) rawTextElement = name;
+		}
+		if (!needsNonce || !injecting || /\snonce\s*=/i.test(tag)) {
+			return tag;
+		}
+		return `<${tag.slice(1, 1 + (name?.length ?? 0))}${nonceAttribute}${tag.slice(1 + (name?.length ?? 0))}`;
+	};
+
+	// Process as much of `pending` as possible, keeping an incomplete tail for the next chunk
+	const process = (final: boolean): string => {
+		let output = "";
+		let html = pending;
+
+		while (html.length > 0) {
+			if (rawTextElement) {
+				const close = html.toLowerCase().indexOf(`</${rawTextElement}`);
+				if (close === -1) {
+					// Keep enough to recognize a closing tag split across chunks
+					const keep = final ? 0 : Math.min(html.length, rawTextElement.length + 1);
+					output += html.slice(0, html.length - keep);
+					html = html.slice(html.length - keep);
+					break;
+				}
+				output += html.slice(0, close);
+				html = html.slice(close);
+				rawTextElement = undefined;
+				continue;
+			}
+
+			const start = html.search(/<[a-zA-Z!/]/);
+			if (start === -1) {
+				// A lone trailing "<" may start a tag in the next chunk
+				const keep = !final && html.endsWith("<") ? 1 : 0;
+				output += html.slice(0, html.length - keep);
+				html = html.slice(html.length - keep);
+				break;
+			}
+			output += html.slice(0, start);
+			html = html.slice(start);
+
+			if (html.startsWith("<!--")) {
+				const end = html.indexOf("-->");
+				if (end === -1 && !final && html.length <= MAX_PENDING_TAG) break;
+				const commentEnd = end === -1 ? html.length : end + 3;
+				output += html.slice(0, commentEnd);
+				html = html.slice(commentEnd);
+				continue;
+			}
+
+			const end = findTagEnd(html, 0);
+			if (end === -1) {
+				if (!final && html.length <= MAX_PENDING_TAG) break;
+				output += html;
+				html = "";
+				break;
+			}
+			output += rewriteTag(html.slice(0, end + 1));
+			html = html.slice(end + 1);
+		}
+
+		pending = html;
+		return output;
+	};
+
+	return new TransformStream<Uint8Array, Uint8Array>({
+		transform(chunk, controller) {
+			pending += decoder.decode(chunk, { stream: true });
+			const output = process(false);
+			if (output) controller.enqueue(encoder.encode(output));
+		},
+		flush(controller) {
+			pending += decoder.decode();
+			const output = process(true);
+			if (output) controller.enqueue(encoder.encode(output));
+		},
+	});
+}
@@ -0,0 +1,188 @@
+/**
+ * CSP policy optimizer
+ * Drops sources and directives that cannot change what the browser allows, to keep the header small
+ */
+
+import { FALLBACK_DIRECTIVES, getEffectiveDirective, getFallbackChain } from "./directives";
+import type { CspOptimization } from "./types";
+
+// Script directives where 'strict-dynamic' makes host, scheme, and 'self' sources inert
+const STRICT_DYNAMIC_DIRECTIVES = new Set(["script-src", "script-src-elem"]);
+
+// Schemes matched by the `*` source (it never matches data:, blob:, or filesystem:)
+const NETWORK_SCHEMES = new Set(["http", "https", "ws", "wss"]);
+
+const SCHEME_SOURCE = /^([a-z][a-z0-9+.-]*):$/i;
+const HOST_SOURCE =
+	/^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d+|\*))?(\/[^?#]*)?$/i;
+
+interface HostSource {
+	scheme: string | undefined;
+	host: string;
+	port: string | undefined;
+	path: string | undefined;
+}
+
+/**
+ * Parse a host-source expression (e.g. `https://*.example.com:443/path`)
+ */
+function parseHostSource(source: string): HostSource | undefined {
+	const match = HOST_SOURCE.exec(source);
+	if (!match) return undefined;
+	return {
+		scheme: match[1]?.toLowerCase(),
+		host: (match[2] ?? "").toLowerCase(),
+		port: match[3],
+		path: match[4],
+	};
+}
+
+/**
+ * Whether a source's scheme is allowed by a scheme-source (`http:` also allows https, `ws:` also wss)
+ */
+function schemeAllows(allowed: string, scheme: string): boolean {
+	return allowed === scheme || (allowed === "http" && scheme === "https") || (allowed === "ws" && scheme === "wss");
+}
+
+/**
+ * Whether every URL matched by `source` is also matched by `by`
+ * Conservative: returns false whenever the answer depends on the protected page's own URL.
+ */
+function covers(by: string, source: string): boolean {
+	if (source.startsWith("'")) return false;
+	const sourceScheme = SCHEME_SOURCE.exec(source)?.[1]?.toLowerCase();
+	const sourceHost = sourceScheme ? undefined : parseHostSource(source);
+	if (!sourceScheme && !sourceHost) return false;
+
+	if (by === "*") {
+		const scheme = sourceScheme ?? sourceHost?.scheme;
+		return scheme === undefined || NETWORK_SCHEMES.has(scheme);
+	}
+
+	const byScheme = SCHEME_SOURCE.exec(by)?.[1]?.toLowerCase();
+	if (byScheme) {
+		const scheme = sourceScheme ?? sourceHost?.scheme;
+		return scheme !== undefined && schemeAllows(byScheme, scheme);
+	}
+
+	const byHost = parseHostSource(by);
+	if (!byHost || !sourceHost) return false;
+
+	const hostCovered =
+		byHost.host === "*" ||
+		byHost.host === sourceHost.host ||
+		(byHost.host.startsWith("*.") && sourceHost.host.endsWith(byHost.host.slice(1)));
+	const pathCovered =
+		byHost.path === undefined ||
+		byHost.path === sourceHost.path ||
+		(byHost.path.endsWith("/") && sourceHost.path?.startsWith(byHost.path) === true);
+
+	return (
+		byHost.scheme === sourceHost.scheme &&
+		hostCovered &&
+		(byHost.port === "*" || byHost.port === sourceHost.port) &&
+		pathCovered
+	);
+}
+
+/**
+ * Whether a source is a host or scheme source (or 'self'), which 'strict-dynamic' makes inert
+ */
+function isLocationSource(source: string): boolean {
+	return source === "'self'" || SCHEME_SOURCE.test(source) || parseHostSource(source) !== undefined;
+}
+
+/**
+ * Whether two source lists allow the same things (order-insensitive)
+ */
+function sameSources(a: readonly string[], b: readonly string[]): boolean {
+	const set = new Set(a);
+	return set.size === new Set(b).size && b.every((source) => set.has(source));
+}
+
+/**
+ * Whether removing a directive leaves the sources every fallback directive resolves to unchanged
+ * A directive can be skipped by a longer chain: worker-src goes child-src → script-src → default-src,
+ * so dropping child-src for equalling default-src would hand worker-src to script-src.
+ */
+function canDropDirective(directives: Record<string, string[]>, directive: string): boolean {
+	const { [directive]: _removed, ...without } = directives;
+	return FALLBACK_DIRECTIVES.every((name) => {
+		const before = getEffectiveDirective(directives, name)?.sources;
+		const after = getEffectiveDirective(without, name)?.sources;
+		return before === undefined || after === undefined ? before === after : sameSources(before, after);
+	});
+}
+
+/**
+ * Remove sources and directives that don't change the policy
+ *
+ * - Host and scheme sources (and 'self') in script directives with 'strict-dynamic'
+ * - Sources already matched by a wildcard or broader source in the same directive
+ * - Fetch directives identical to the directive they would fall back to (e.g. `default-src`), unless
+ *   another directive that skips over them (worker-src) would then resolve differently
+ *
+ * @param directives - Compiled directive map
+ * @returns Optimized directive map (same order) and what was removed
+ *
+ * @example
+ * ```typescript
+ * optimizeCspDirectives({
+ *   'default-src': ["'self'"],
+ *   'img-src': ["'self'"],
+ *   'connect-src': ["'self'", 'https://*.example.com', 'https://api.example.com'],
+ * });
+ * // directives: { 'default-src': ["'self'"], 'connect-src': ["'self'", 'https://*.example.com'] }
+ * ```
+ */
+export function optimizeCspDirectives(directives: Record<string, readonly string[]>): {
+	directives: Record<string, string[]>;
+	removed: CspOptimization[];
+} {
+	const removed: CspOptimization[] = [];
+	const optimized: Record<string, string[]> = {};
+
+	for (const [directive, values] of Object.entries(directives)) {
+		const strictDynamic = STRICT_DYNAMIC_DIRECTIVES.has(directive) && values.includes("'strict-dynamic'");
+		const kept: string[] = [];
+
+		for (const source of values) {
+			if (strictDynamic && isLocationSource(source)) {
+				removed.push({ directive, source, reason: "strict-dynamic", by: "'strict-dynamic'" });
+				continue;
+			}
+			kept.push(source);
+		}
+
+		// A source is dropped only in favour of one that stays, so one of two equivalent sources survives
+		const dropped = new Set<number>();
+		for (const [index, source] of kept.entries()) {
+			const by = kept.find(
+				(other, otherIndex) => otherIndex !== index && !dropped.has(otherIndex) && covers(other, source),
+			);
+			if (by !== undefined) {
+				dropped.add(index);
+				removed.push({ directive, source, reason: "covered", by });
+			}
+		}
+
+		optimized[directive] = kept.filter((_, index) => !dropped.has(index));
+	}
+
+	// A directive equal to its fallback is dropped only if no directive resolves differently without it
+	for (const directive of Object.keys(optimized)) {
+		const sources = optimized[directive] ?? [];
+		const fallback = getFallbackChain(directive).find((candidate) => optimized[candidate] !== undefined);
+		if (
+			fallback &&
+			sources.length > 0 &&
+			sameSources(sources, optimized[fallback] ?? []) &&
+			canDropDirective(optimized, directive)
+		) {
+			delete optimized[directive];
+			removed.push({ directive, reason: "inherited", by: fallback });
+		}
+	}
+
+	return { directives: optimized, removed };
+}
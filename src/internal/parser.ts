@@ -0,0 +1,126 @@
+/**
+ * CSP header parsing utilities
+ * Turns serialized policies back into directive maps and CspRule objects
+ */
+
+import type { CspRule } from "./types";
+
+// Keyword sources are matched case-insensitively by browsers; normalize to lowercase
+const KEYWORD_SOURCES = new Set([
+	"'self'",
+	"'none'",
+	"'unsafe-inline'",
+	"'unsafe-eval'",
+	"'strict-dynamic'",
+	"'unsafe-hashes'",
+	"'report-sample'",
+	"'unsafe-allow-redirects'",
+	"'wasm-unsafe-eval'",
+	"'inline-speculation-rules'",
+	"'script'",
+	"'allow-duplicates'",
+]);
+
+// Directives whose presence alone enables them
+const BOOLEAN_DIRECTIVES = new Set(["upgrade-insecure-requests", "block-all-mixed-content"]);
+
+// Directives typed as a single string on CspRule
+const STRING_DIRECTIVES = new Set(["report-to", "report-uri", "require-trusted-types-for"]);
+
+/**
+ * Normalize a single source expression
+ * Lowercases keywords, nonce/hash prefixes, and scheme-only sources; leaves hosts and values as written.
+ */
+function normalizeSource(source: string): string {
+	const lower = source.toLowerCase();
+	if (KEYWORD_SOURCES.has(lower)) {
+		return lower;
+	}
+
+	// 'nonce-…' / 'sha256-…': prefix is case-insensitive, the base64 value is not
+	const prefixed = /^'(nonce|sha256|sha384|sha512)-(.+)'$/i.exec(source);
+	if (prefixed) {
+		return `'${prefixed[1]?.toLowerCase()}-${prefixed[2]}'`;
+	}
+
+	// Scheme-only sources (https:, data:, blob:)
+	if (/^[a-z][a-z0-9+.-]*:$/i.test(source)) {
+		return lower;
+	}
+
+	return source;
+}
+
+/**
+ * Parse a CSP header value into a normalized directive map
+ *
+ * Follows the CSP3 parsing algorithm: directives are split on `;`, names are
+ * lowercased, and duplicate directives are ignored (the first one wins).
+ * Keyword sources are lowercased, values are deduplicated, and `'none'` is
+ * dropped when mixed with other sources. Valueless directives map to `[]`.
+ *
+ * Only a single policy is parsed; split comma-separated policies first.
+ *
+ * @param header - CSP header value (e.g. from a response)
+ * @returns Directive map in header order
+ *
+ * @example
+ * ```typescript
+ * parseCspHeader("default-src 'SELF'; upgrade-insecure-requests");
+ * // { 'default-src': ["'self'"], 'upgrade-insecure-requests': [] }
+ * ```
+ */
+export function parseCspHeader(header: string): Record<string, string[]> {
+	const directives: Record<string, string[]> = {};
+
+	for (const token of header.split(";")) {
+		const [rawName, ...rawValues] = token.trim().split(/\s+/);
+		if (!rawName) continue;
+
+		const name = rawName.toLowerCase();
+		// Skip malformed names and duplicates (browsers ignore repeated directives)
+		if (!/^[a-z0-9-]+$/.test(name) || Object.hasOwn(directives, name)) continue;
+
+		let values = Array.from(new Set(rawValues.map(normalizeSource)));
+		if (values.length > 1 && values.includes("'none'")) {
+			values = values.filter((value) => value !== "'none'");
+		}
+
+		directives[name] = values;
+	}
+
+	return directives;
+}
+
+/**
+ * Parse a CSP header value into a CspRule
+ *
+ * Useful for importing policies from existing apps. Boolean directives become `true`,
+ * single-value directives (`report-to`, `report-uri`, `require-trusted-types-for`)
+ * become strings, and everything else becomes a source array.
+ *
+ * @param header - CSP header value
+ * @param description - Optional description for the resulting rule
+ * @returns CspRule equivalent to the header
+ */
+export function parseCspHeaderToRule(header: string, description?: string): CspRule {
+	const rule: Record<string, string | boolean | string[]> = {};
+	if (description !== undefined) {
+		rule.description = description;
+	}
+
+	for (const [directive, values] of Object.entries(parseCspHeader(header))) {
+		if (BOOLEAN_DIRECTIVES.has(directive)) {
+			rule[directive] = true;
+		} else if (STRING_DIRECTIVES.has(directive)) {
+			rule[directive] = values.join(" ");
+		} else if (values.length === 0) {
+			// Valueless sandbox applies all restrictions; an empty source list allows nothing
+			rule[directive] = directive === "sandbox" ? "" : "'none'";
+		} else {
+			rule[directive] = values;
+		}
+	}
+
+	return rule as CspRule;
+}
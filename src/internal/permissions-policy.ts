@@ -0,0 +1,193 @@
+/**
+ * Permissions-Policy building utilities
+ * Merges typed feature allowlists from rules and serializes the header
+ */
+
+import type { CspRule, PermissionsPolicy } from "./types";
+
+/**
+ * Permissions-Policy features known to browsers
+ * Source of the `PermissionsPolicyFeature` type; unknown names are allowed, with a warning.
+ */
+export const PERMISSIONS_POLICY_FEATURES = [
+	"accelerometer",
+	"ambient-light-sensor",
+	"attribution-reporting",
+	"autoplay",
+	"bluetooth",
+	"browsing-topics",
+	"camera",
+	"clipboard-read",
+	"clipboard-write",
+	"compute-pressure",
+	"cross-origin-isolated",
+	"display-capture",
+	"document-domain",
+	"encrypted-media",
+	"execution-while-not-rendered",
+	"execution-while-out-of-viewport",
+	"fullscreen",
+	"gamepad",
+	"geolocation",
+	"gyroscope",
+	"hid",
+	"identity-credentials-get",
+	"idle-detection",
+	"interest-cohort",
+	"join-ad-interest-group",
+	"keyboard-map",
+	"local-fonts",
+	"magnetometer",
+	"microphone",
+	"midi",
+	"otp-credentials",
+	"payment",
+	"picture-in-picture",
+	"private-state-token-issuance",
+	"private-state-token-redemption",
+	"publickey-credentials-create",
+	"publickey-credentials-get",
+	"run-ad-auction",
+	"screen-wake-lock",
+	"serial",
+	"speaker-selection",
+	"storage-access",
+	"unload",
+	"usb",
+	"web-share",
+	"window-management",
+	"xr-spatial-tracking",
+] as const;
+
+const KNOWN_FEATURES = new Set<string>(PERMISSIONS_POLICY_FEATURES);
+
+/**
+ * Default Permissions-Policy: block sensors, media capture, payments, and ad-tracking APIs
+ */
+export const DEFAULT_PERMISSIONS_POLICY: PermissionsPolicy = {
+	accelerometer: [],
+	camera: [],
+	geolocation: [],
+	gyroscope: [],
+	magnetometer: [],
+	microphone: [],
+	payment: [],
+	usb: [],
+	"interest-cohort": [],
+	"browsing-topics": [],
+};
+
+const ORIGIN_PATTERN = /^https?:\/\/(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d+)?$/i;
+
+/**
+ * Normalize one allowlist entry to its header form, or undefined if it is invalid
+ * Keywords may be written with or without CSP-style quotes; origins are quoted in the header.
+ */
+function normalizeAllowlistEntry(entry: string, feature: string, description?: string): string | undefined {
+	const value = entry.trim().replace(/^'(.*)'$/, "$1");
+	if (value === "self" || value === "src" || value === "*") {
+		return value;
+	}
+
+	const origin = value.replace(/^"(.*)"$/, "$1").replace(/\/$/, "");
+	if (ORIGIN_PATTERN.test(origin)) {
+		return `"${origin.toLowerCase()}"`;
+	}
+
+	// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+	console.warn(
+		`[@enalmada/start-secure] Ignoring invalid Permissions-Policy allowlist entry "${entry}" for "${feature}". ` +
+			`Use self, src, *, or an origin like https://example.com.${description ? ` (Rule: ${description})` : ""}`,
+	);
+	return undefined;
+}
+
+/**
+ * Merge permission allowlists from defaults and rules
+ *
+ * Rules are applied in order. A rule's allowlist is added to the feature's existing one;
+ * an empty allowlist (or `'none'`) disables the feature, replacing earlier allowances.
+ *
+ * @param rules - Rules with optional `permissions`
+ * @param defaults - Base policy (defaults to the package's restrictive defaults)
+ * @returns Feature → allowlist entries in header form
+ */
+export function mergePermissionsPolicy(
+	rules: readonly CspRule[],
+	defaults: PermissionsPolicy = DEFAULT_PERMISSIONS_POLICY,
+): Map<string, Set<string>> {
+	const merged = new Map<string, Set<string>>();
+
+	const apply = (policy: PermissionsPolicy, description?: string) => {
+		for (const [feature, allowlist] of Object.entries(policy)) {
+			if (allowlist === undefined) continue;
+			if (!KNOWN_FEATURES.has(feature)) {
+				// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+				console.warn(
+					`[@enalmada/start-secure] Unknown Permissions-Policy feature "${feature}". Browsers ignore features they don't recognize.` +
+						(description ? ` (Rule: ${description})` : ""),
+				);
+			}
+
+			const entries = allowlist
+				.filter((entry) => entry.replace(/'/g, "").trim() !== "none")
+				.map((entry) => normalizeAllowlistEntry(entry, feature, description))
+				.filter((entry) => entry !== undefined);
+
+			if (allowlist.length === 0 || entries.length === 0) {
+				merged.set(feature, new Set());
+				continue;
+			}
+
+			const existing = merged.get(feature) ?? new Set();
+			for (const entry of entries) {
+				existing.add(entry);
+			}
+			merged.set(feature, existing);
+		}
+	};
+
+	apply(defaults);
+	for (const rule of rules) {
+		if (rule.permissions) {
+			apply(rule.permissions, rule.description);
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Serialize merged allowlists into a Permissions-Policy header value
+ * @param policy - Feature → allowlist entries in header form
+ * @returns Permissions-Policy header value
+ */
+export function serializePermissionsPolicy(policy: ReadonlyMap<string, ReadonlySet<string>>): string {
+	return Array.from(policy)
+		.map(([feature, allowlist]) =>
+			allowlist.has("*") ? `${feature}=*` : `${feature}=(${Array.from(allowlist).join(" ")})`,
+		)
+		.join(", ");
+}
+
+/**
+ * Build a Permissions-Policy header from rules
+ *
+ * Starts from restrictive defaults (camera, microphone, geolocation, payment, sensors, and
+ * ad-tracking APIs disabled) and merges each rule's `permissions`.
+ *
+ * @param rules - Rules with optional `permissions`
+ * @param defaults - Base policy (optional)
+ * @returns Permissions-Policy header value
+ *
+ * @example
+ * ```typescript
+ * buildPermissionsPolicy([
+ *   { description: 'video-calls', permissions: { camera: ['self', 'https://meet.example.com'], microphone: ['self'] } },
+ * ]);
+ * // 'accelerometer=(), camera=(self "https://meet.example.com"), geolocation=(), ..., microphone=(self), ...'
+ * ```
+ */
+export function buildPermissionsPolicy(rules: readonly CspRule[], defaults?: PermissionsPolicy): string {
+	return serializePermissionsPolicy(mergePermissionsPolicy(rules, defaults));
+}
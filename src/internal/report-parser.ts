@@ -0,0 +1,148 @@
+/**
+ * CSP violation report parsing utilities
+ * Normalizes legacy report-uri payloads and Reporting API batches into CspViolation objects
+ */
+
+import type { CspViolation } from "./types";
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(source: JsonObject, key: string): string | undefined {
+	const value = source[key];
+	return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function readNumber(source: JsonObject, key: string): number | undefined {
+	const value = source[key];
+	if (typeof value === "number" && Number.isFinite(value)) return value;
+	if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+	return undefined;
+}
+
+type OptionalField = Exclude<keyof CspViolation, "format">;
+
+function setField<K extends OptionalField>(violation: CspViolation, key: K, value: CspViolation[K] | undefined): void {
+	if (value !== undefined) {
+		violation[key] = value;
+	}
+}
+
+/**
+ * Copies defined values onto the violation (keeps optional fields absent instead of undefined)
+ */
+function withOptional(
+	violation: CspViolation,
+	fields: { [K in OptionalField]?: CspViolation[K] | undefined },
+): CspViolation {
+	for (const key of Object.keys(fields) as OptionalField[]) {
+		setField(violation, key, fields[key]);
+	}
+	return violation;
+}
+
+/**
+ * Parses a legacy `report-uri` body: `{ "csp-report": { "document-uri": ..., ... } }`
+ */
+function parseLegacyReport(report: JsonObject): CspViolation | undefined {
+	const documentURL = readString(report, "document-uri");
+	const violatedDirective = readString(report, "violated-directive");
+	// Older browsers only send violated-directive, which may include the source list
+	const effectiveDirective = readString(report, "effective-directive") ?? violatedDirective?.split(" ")[0];
+
+	if (!documentURL || !effectiveDirective) {
+		return undefined;
+	}
+
+	return withOptional(
+		{
+			format: "report-uri",
+			documentURL,
+			effectiveDirective,
+			disposition: readString(report, "disposition") === "report" ? "report" : "enforce",
+		},
+		{
+			blockedURL: readString(report, "blocked-uri"),
+			violatedDirective,
+			originalPolicy: readString(report, "original-policy"),
+			referrer: readString(report, "referrer"),
+			sourceFile: readString(report, "source-file"),
+			lineNumber: readNumber(report, "line-number"),
+			columnNumber: readNumber(report, "column-number"),
+			statusCode: readNumber(report, "status-code"),
+			sample: readString(report, "script-sample"),
+		},
+	);
+}
+
+/**
+ * Parses one Reporting API report: `{ type: "csp-violation", url, user_agent, body: { ... } }`
+ */
+function parseReportingApiReport(report: JsonObject): CspViolation | undefined {
+	if (report.type !== "csp-violation" || !isObject(report.body)) {
+		return undefined;
+	}
+
+	const body = report.body;
+	const documentURL = readString(body, "documentURL") ?? readString(report, "url");
+	const effectiveDirective = readString(body, "effectiveDirective");
+
+	if (!documentURL || !effectiveDirective) {
+		return undefined;
+	}
+
+	return withOptional(
+		{
+			format: "report-to",
+			documentURL,
+			effectiveDirective,
+			disposition: readString(body, "disposition") === "report" ? "report" : "enforce",
+		},
+		{
+			blockedURL: readString(body, "blockedURL"),
+			originalPolicy: readString(body, "originalPolicy"),
+			referrer: readString(body, "referrer"),
+			sourceFile: readString(body, "sourceFile"),
+			lineNumber: readNumber(body, "lineNumber"),
+			columnNumber: readNumber(body, "columnNumber"),
+			statusCode: readNumber(body, "statusCode"),
+			sample: readString(body, "sample"),
+			userAgent: readString(report, "user_agent"),
+		},
+	);
+}
+
+/**
+ * Converts a parsed report payload into normalized violations
+ *
+ * Accepts either format regardless of content type, since some browsers send
+ * legacy reports as `application/json`. Entries that are not CSP violations
+ * (e.g. deprecation or NEL reports in the same batch) are skipped.
+ *
+ * @param payload - Parsed JSON body of a report request
+ * @returns Normalized violations (empty if nothing recognizable was found)
+ */
+export function parseCspReport(payload: unknown): CspViolation[] {
+	if (Array.isArray(payload)) {
+		return payload.flatMap((entry) => {
+			const violation = isObject(entry) ? parseReportingApiReport(entry) : undefined;
+			return violation ? [violation] : [];
+		});
+	}
+
+	if (isObject(payload)) {
+		if (isObject(payload["csp-report"])) {
+			const violation = parseLegacyReport(payload["csp-report"]);
+			return violation ? [violation] : [];
+		}
+
+		// A single Reporting API report outside of a batch
+		const violation = parseReportingApiReport(payload);
+		return violation ? [violation] : [];
+	}
+
+	return [];
+}
@@ -0,0 +1,121 @@
+/**
+ * Reporting API header utilities
+ * Turns named reporting endpoints into Reporting-Endpoints, Report-To, and NEL headers
+ */
+
+import type { CspRule, ReportingOptions } from "./types";
+
+// Endpoint names are structured-field dictionary keys
+const ENDPOINT_NAME_PATTERN = /^[a-z*][a-z0-9_\-.*]*$/;
+
+// Report-To / NEL policy lifetimes
+const DEFAULT_REPORT_TO_MAX_AGE = 10886400; // 126 days
+const DEFAULT_NEL_MAX_AGE = 86400; // 1 day
+
+/**
+ * Reporting headers and the CSP rule that points report-to at an endpoint
+ */
+export interface ResolvedReporting {
+	/** Response headers (Reporting-Endpoints, and Report-To/NEL when configured) */
+	headers: Record<string, string>;
+	/** Rule adding `report-to <endpoint>`, unless the app's rules already set report-to */
+	rule: CspRule | undefined;
+}
+
+/**
+ * Warn about a misconfigured reporting option
+ */
+function warnReporting(message: string): void {
+	// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+	console.warn(`[@enalmada/start-secure] ${message}`);
+}
+
+/**
+ * Keep endpoints with a valid name and a secure (or relative) URL
+ */
+function getValidEndpoints(endpoints: Readonly<Record<string, string>>): [name: string, url: string][] {
+	return Object.entries(endpoints).filter(([name, url]) => {
+		if (!ENDPOINT_NAME_PATTERN.test(name)) {
+			warnReporting(
+				`Ignoring reporting endpoint "${name}". Names must be lowercase letters, digits, and _ - . * (starting with a letter).`,
+			);
+			return false;
+		}
+		if (url.startsWith("http://") && !/^http:\/\/(localhost|127\.0\.0\.1)\b/.test(url)) {
+			warnReporting(`Ignoring reporting endpoint "${name}". Browsers only send reports to HTTPS URLs (got ${url}).`);
+			return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * Serialize a string as a structured-field string
+ */
+function toSfString(value: string): string {
+	return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Build reporting headers and the CSP report-to wiring from named endpoints
+ *
+ * @param options - Reporting options
+ * @param rules - The app's CSP rules (an explicit report-to is left alone)
+ * @returns Headers to set and the rule to add to the policy
+ *
+ * @example
+ * ```typescript
+ * buildReportingHeaders({ endpoints: { 'csp-endpoint': 'https://example.com/api/csp-report' } }).headers;
+ * // { 'Reporting-Endpoints': 'csp-endpoint="https://example.com/api/csp-report"' }
+ * ```
+ */
+export function buildReportingHeaders(options: ReportingOptions, rules: readonly CspRule[] = []): ResolvedReporting {
+	const endpoints = getValidEndpoints(options.endpoints);
+	const names = new Set(endpoints.map(([name]) => name));
+	const headers: Record<string, string> = {};
+
+	if (endpoints.length > 0) {
+		headers["Reporting-Endpoints"] = endpoints.map(([name, url]) => `${name}=${toSfString(url)}`).join(", ");
+	}
+
+	// CSP report-to endpoint (first endpoint unless named explicitly)
+	const cspEndpoint = options.csp === false ? undefined : (options.csp ?? endpoints[0]?.[0]);
+	if (cspEndpoint !== undefined && !names.has(cspEndpoint)) {
+		warnReporting(`CSP reporting endpoint "${cspEndpoint}" is not declared in reporting.endpoints.`);
+	}
+	const hasReportTo = rules.some((rule) => rule["report-to"] !== undefined);
+	const rule: CspRule | undefined =
+		cspEndpoint !== undefined && names.has(cspEndpoint) && !hasReportTo
+			? { description: "reporting-endpoints", "report-to": cspEndpoint }
+			: undefined;
+
+	// NEL reports are only delivered to Report-To groups, so NEL implies the legacy header
+	const nelEndpoint = options.nel ? (options.nel.endpoint ?? cspEndpoint ?? endpoints[0]?.[0]) : undefined;
+	if (options.nel && (nelEndpoint === undefined || !names.has(nelEndpoint))) {
+		warnReporting(`NEL endpoint "${nelEndpoint ?? ""}" is not declared in reporting.endpoints. NEL header omitted.`);
+	} else if (options.nel && nelEndpoint) {
+		const { maxAge = DEFAULT_NEL_MAX_AGE, includeSubdomains, successFraction = 0, failureFraction = 1 } = options.nel;
+		headers.NEL = JSON.stringify({
+			report_to: nelEndpoint,
+			max_age: maxAge,
+			...(includeSubdomains ? { include_subdomains: true } : {}),
+			success_fraction: successFraction,
+			failure_fraction: failureFraction,
+		});
+	}
+
+	if ((options.legacyReportTo || headers.NEL) && endpoints.length > 0) {
+		headers["Report-To"] = endpoints
+			.map(([name, url]) =>
+				JSON.stringify({
+					group: name,
+					max_age: DEFAULT_REPORT_TO_MAX_AGE,
+					endpoints: [{ url }],
+					...(name === nelEndpoint && options.nel?.includeSubdomains ? { include_subdomains: true } : {}),
+				}),
+			)
+			.join(", ");
+	}
+
+	return { headers, rule };
+}
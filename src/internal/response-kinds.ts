@@ -0,0 +1,124 @@
+/**
+ * Response-kind header matrix
+ * Classifies responses as documents, APIs, or static assets and trims headers that only matter for documents
+ */
+
+import type { ResponseKind, ResponseKindOptions } from "./types";
+
+// Built-in Content-Type patterns, checked after any configured ones
+// SVG and XML can run script when opened directly, so they are treated as documents
+const BUILT_IN_CONTENT_TYPES: Record<ResponseKind, readonly string[]> = {
+	document: ["text/html", "application/xhtml+xml", "image/svg+xml", "application/xml", "text/xml"],
+	api: ["application/json", "*+json", "application/x-ndjson", "text/event-stream"],
+	asset: [
+		"text/css",
+		"text/javascript",
+		"application/javascript",
+		"application/wasm",
+		"application/octet-stream",
+		"image/*",
+		"font/*",
+		"audio/*",
+		"video/*",
+	],
+};
+
+const KIND_ORDER: readonly ResponseKind[] = ["document", "api", "asset"];
+
+/**
+ * Minimal policy for data responses: nothing loads, nothing frames
+ */
+export const API_CSP = "default-src 'none'; frame-ancestors 'none'";
+
+// Headers that only affect documents, removed from API and asset responses
+const DOCUMENT_ONLY_HEADERS = [
+	"Content-Security-Policy",
+	"Content-Security-Policy-Report-Only",
+	"X-Frame-Options",
+	"Referrer-Policy",
+	"X-XSS-Protection",
+	"Permissions-Policy",
+	"Cross-Origin-Opener-Policy",
+	"Cross-Origin-Embedder-Policy",
+	"Reporting-Endpoints",
+	"Report-To",
+	"NEL",
+	"x-nonce",
+];
+
+/**
+ * Whether a media type matches a pattern (`type/subtype`, `type/*`, or `*+suffix`)
+ */
+function matchesContentType(mediaType: string, pattern: string): boolean {
+	const normalized = pattern.toLowerCase();
+	if (normalized.endsWith("/*")) {
+		return mediaType.startsWith(normalized.slice(0, -1));
+	}
+	if (normalized.startsWith("*+")) {
+		return mediaType.endsWith(normalized.slice(1));
+	}
+	return mediaType === normalized;
+}
+
+/**
+ * Classify a response as a document, API, or static asset
+ *
+ * The custom classifier runs first, then configured Content-Type patterns, then the built-in ones.
+ * Responses with a missing or unrecognized Content-Type get `options.fallback` ("document" by default),
+ * so nothing loses its CSP by accident.
+ *
+ * @param response - Response to classify
+ * @param request - Request it answers
+ * @param options - Classification options
+ * @returns The response kind
+ */
+export function classifyResponse(
+	response: Response,
+	request: Request,
+	options: ResponseKindOptions = {},
+): ResponseKind {
+	const custom = options.classify?.(response, request);
+	if (custom) {
+		return custom;
+	}
+
+	const mediaType = response.headers.get("Content-Type")?.split(";")[0]?.trim().toLowerCase();
+	if (mediaType) {
+		for (const patterns of [options.contentTypes ?? {}, BUILT_IN_CONTENT_TYPES]) {
+			const kind = KIND_ORDER.find((candidate) =>
+				patterns[candidate]?.some((pattern) => matchesContentType(mediaType, pattern)),
+			);
+			if (kind) {
+				return kind;
+			}
+		}
+	}
+
+	return options.fallback ?? "document";
+}
+
+/**
+ * Trim security headers to what a non-document response needs
+ *
+ * Removes document-only headers (CSP, framing, Permissions-Policy, reporting, COOP/COEP).
+ * API responses get {@link API_CSP} and Cross-Origin-Resource-Policy (`same-origin` unless already set).
+ * Strict-Transport-Security and X-Content-Type-Options are kept for every kind.
+ *
+ * @param headers - Headers already carrying the document set (modified in place)
+ * @param kind - Response kind
+ */
+export function applyResponseKindHeaders(headers: Pick<Headers, "delete" | "has" | "set">, kind: ResponseKind): void {
+	if (kind === "document") return;
+
+	for (const name of DOCUMENT_ONLY_HEADERS) {
+		headers.delete(name);
+	}
+	headers.set("X-Content-Type-Options", "nosniff");
+
+	if (kind === "api") {
+		headers.set("Content-Security-Policy", API_CSP);
+		if (!headers.has("Cross-Origin-Resource-Policy")) {
+			headers.set("Cross-Origin-Resource-Policy", "same-origin");
+		}
+	}
+}
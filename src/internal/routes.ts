@@ -0,0 +1,92 @@
+/**
+ * Per-route CSP policy utilities
+ * Matches request paths against route policies and resolves the rules that apply
+ */
+
+import type { CspPathMatcher, CspRoutePolicy, CspRule } from "./types";
+
+/**
+ * Compile a path matcher into a predicate
+ * @param matcher - Glob string, RegExp, or predicate
+ * @returns Predicate that tests a pathname
+ */
+function compilePathMatcher(matcher: CspPathMatcher): (pathname: string) => boolean {
+	if (typeof matcher === "function") {
+		return matcher;
+	}
+
+	if (matcher instanceof RegExp) {
+		return (pathname) => {
+			// Reset lastIndex so global/sticky regexes behave the same on every request
+			matcher.lastIndex = 0;
+			return matcher.test(pathname);
+		};
+	}
+
+	if (!matcher.includes("*")) {
+		return (pathname) => pathname === matcher;
+	}
+
+	const pattern = matcher
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	const regex = new RegExp(`^${pattern}$`);
+	return (pathname) => regex.test(pathname);
+}
+
+/**
+ * A route policy with its matchers compiled once
+ */
+export interface CompiledRoutePolicy {
+	readonly index: number;
+	readonly policy: CspRoutePolicy;
+	readonly matches: (pathname: string) => boolean;
+}
+
+/**
+ * Compile route policies for repeated matching
+ * @param routes - Route policies from configuration
+ * @returns Route policies with compiled matchers
+ */
+export function compileRoutePolicies(routes: readonly CspRoutePolicy[]): CompiledRoutePolicy[] {
+	return routes.map((policy, index) => {
+		const matchers = (Array.isArray(policy.path) ? policy.path : [policy.path]).map((matcher: CspPathMatcher) =>
+			compilePathMatcher(matcher),
+		);
+		return {
+			index,
+			policy,
+			matches: (pathname: string) => matchers.some((matches) => matches(pathname)),
+		};
+	});
+}
+
+/**
+ * Find the route policies that apply to a request path
+ * @param routes - Compiled route policies
+ * @param pathname - Request pathname
+ * @returns Matching route policies, in configuration order
+ */
+export function matchRoutes(routes: readonly CompiledRoutePolicy[], pathname: string): CompiledRoutePolicy[] {
+	return routes.filter((route) => route.matches(pathname));
+}
+
+/**
+ * Resolve the rules that apply for a set of matched routes
+ *
+ * All matching route policies apply, in configuration order. If any matching
+ * policy has `replace: true`, the base rules are dropped.
+ *
+ * @param baseRules - Global rules
+ * @param matched - Route policies matching the request
+ * @returns Resulting rule list
+ */
+export function resolveRouteRules(baseRules: readonly CspRule[], matched: readonly CompiledRoutePolicy[]): CspRule[] {
+	if (matched.length === 0) {
+		return [...baseRules];
+	}
+
+	const replace = matched.some((route) => route.policy.replace);
+	return [...(replace ? [] : baseRules), ...matched.flatMap((route) => route.policy.rules)];
+}
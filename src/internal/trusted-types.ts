@@ -0,0 +1,100 @@
+/**
+ * Trusted Types policy utilities
+ * Turns typed Trusted Types options into CSP rules and report-only policies
+ */
+
+import { serializeCspDirectives } from "./compiler";
+import type { CspRule, TrustedTypesOptions } from "./types";
+
+// Policy names allowed by the trusted-types directive grammar
+const POLICY_NAME_PATTERN = /^[A-Za-z0-9\-#=_/@.%]+$/;
+
+/**
+ * Resolve the trusted-types source list for the given options
+ */
+function getTrustedTypesSources(options: TrustedTypesOptions): string[] {
+	const { policies = ["default"], allowDuplicates = false } = options;
+	if (policies === "none") return ["'none'"];
+
+	const names = policies.filter((name) => {
+		if (POLICY_NAME_PATTERN.test(name)) return true;
+		// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+		console.warn(
+			`[@enalmada/start-secure] Ignoring invalid Trusted Types policy name "${name}". ` +
+				"Names may only contain letters, digits, and - # = _ / @ . %",
+		);
+		return false;
+	});
+	if (names.length === 0) return ["'none'"];
+
+	return [...new Set(names), ...(allowDuplicates ? ["'allow-duplicates'"] : [])];
+}
+
+/**
+ * Build a CSP rule that enforces Trusted Types
+ *
+ * Adds `require-trusted-types-for 'script'` and a `trusted-types` allowlist of policy names.
+ * Use with `buildCspHeader`; the middleware and header generator apply `options.trustedTypes` for you.
+ *
+ * @param options - Trusted Types options
+ * @returns CSP rule with the Trusted Types directives
+ *
+ * @example
+ * ```typescript
+ * buildTrustedTypesRule({ policies: ['default', 'dompurify'] });
+ * // { 'require-trusted-types-for': "'script'", 'trusted-types': ['default', 'dompurify'], ... }
+ * ```
+ */
+export function buildTrustedTypesRule(options: TrustedTypesOptions = {}): CspRule {
+	return {
+		description: "trusted-types",
+		"require-trusted-types-for": "'script'",
+		"trusted-types": getTrustedTypesSources(options),
+	};
+}
+
+/**
+ * Build a standalone report-only policy containing only the Trusted Types directives
+ *
+ * Reporting directives from the app's rules are carried over so violations reach the same endpoint.
+ *
+ * @param options - Trusted Types options
+ * @param rules - The app's CSP rules (for report-uri/report-to)
+ * @returns CSP header value for Content-Security-Policy-Report-Only
+ */
+export function buildTrustedTypesReportOnlyPolicy(options: TrustedTypesOptions, rules: readonly CspRule[]): string {
+	const directives: Record<string, string[]> = {
+		"require-trusted-types-for": ["'script'"],
+		"trusted-types": getTrustedTypesSources(options),
+	};
+
+	for (const directive of ["report-uri", "report-to"] as const) {
+		const values = rules.flatMap((rule) => rule[directive]?.split(/\s+/).filter(Boolean) ?? []);
+		if (values.length > 0) {
+			directives[directive] = Array.from(new Set(values));
+		}
+	}
+
+	return serializeCspDirectives(directives);
+}
+
+/**
+ * Resolve how Trusted Types options are delivered
+ * @param options - Trusted Types options (optional)
+ * @param rules - The app's CSP rules (for reporting directives)
+ * @param isDev - Whether in development mode
+ * @returns A rule to add to enforced policies, or a separate report-only policy (development with reportOnlyInDev)
+ */
+export function resolveTrustedTypes(
+	options: TrustedTypesOptions | undefined,
+	rules: readonly CspRule[],
+	isDev: boolean,
+): { rule: CspRule | undefined; reportOnlyPolicy: string | undefined } {
+	if (!options) {
+		return { rule: undefined, reportOnlyPolicy: undefined };
+	}
+	if (isDev && options.reportOnlyInDev) {
+		return { rule: undefined, reportOnlyPolicy: buildTrustedTypesReportOnlyPolicy(options, rules) };
+	}
+	return { rule: buildTrustedTypesRule(options), reportOnlyPolicy: undefined };
+}
@@ -4,10 +4,98 @@
  * Includes configuration interfaces for security options
  */
 
+import type { PERMISSIONS_POLICY_FEATURES } from "./permissions-policy";
+
+/**
+ * Hash sources for fixed inline content that can't carry a nonce
+ * Accepts `'sha256-…'` (quoted) or `sha256-…` (unquoted); sha384 and sha512 are also supported.
+ */
+export interface CspHashes {
+	/** Hashes of inline `<script>` contents, placed next to the nonce in script-src/script-src-elem */
+	readonly scripts?: readonly string[];
+	/**
+	 * Hashes of inline `<style>` contents, placed in style-src/style-src-elem
+	 * Only emitted where 'unsafe-inline' is not allowed, i.e. with `styles: 'strict'` (a hash would make browsers ignore it).
+	 */
+	readonly styles?: readonly string[];
+}
+
+/**
+ * Named deployment environments
+ * Each has a profile deciding dev-tooling relaxations and HSTS (see `CspEnvironmentProfile`).
+ */
+export type CspEnvironment = "development" | "preview" | "staging" | "production" | "test";
+
+/**
+ * Environment-dependent behavior
+ */
+export interface CspEnvironmentProfile {
+	/** Allow 'unsafe-eval' and localhost WebSockets for dev tooling and HMR */
+	readonly devTools?: boolean;
+	/** Strict-Transport-Security for this environment, or false to never send it */
+	readonly hsts?: HstsOptions | false;
+}
+
+/**
+ * Development server origins allowed in `connect-src` while dev tooling is on
+ * Without `hmr`, the HMR WebSocket is allowed on any localhost port.
+ */
+export interface DevServerOptions {
+	/** HMR WebSocket location, or false if HMR is off */
+	readonly hmr?:
+		| false
+		| {
+				/** Host(s) the browser connects to (defaults to "localhost") */
+				readonly host?: string | readonly string[];
+				/** Server port */
+				readonly port?: number;
+				/** Port the browser connects to, if different (e.g. behind a proxy); wins over `port` */
+				readonly clientPort?: number;
+				/** WebSocket protocol (defaults to both ws and wss) */
+				readonly protocol?: "ws" | "wss";
+		  };
+	/** Extra dev-only connect-src origins (e.g. devtools backends, Docker service hosts) */
+	readonly origins?: readonly string[];
+	/** Allow forwarded URLs when running in GitHub Codespaces or Gitpod (defaults to true) */
+	readonly remote?: boolean;
+}
+
+/**
+ * What a rule's `when` predicate can inspect
+ */
+export interface CspRuleContext {
+	readonly env: CspEnvironment;
+	readonly isDev: boolean;
+}
+
+/**
+ * Permissions-Policy features known to browsers (unknown names are allowed, with a warning)
+ */
+export type PermissionsPolicyFeature = (typeof PERMISSIONS_POLICY_FEATURES)[number];
+
+/**
+ * Permissions-Policy allowlists by feature
+ * Each allowlist holds `self`, `src`, `*`, or origins (e.g. `https://meet.example.com`); an empty list disables the feature.
+ */
+export type PermissionsPolicy = {
+	readonly [Feature in PermissionsPolicyFeature | (string & {})]?: readonly string[];
+};
+
 export interface CspRule {
 	readonly description?: string;
 	readonly source?: string;
 
+	/** Hash-based allowances for fixed inline scripts and styles */
+	readonly hashes?: CspHashes;
+
+	/** Permissions-Policy allowances, merged like CSP sources (an empty list disables the feature) */
+	readonly permissions?: PermissionsPolicy;
+
+	/** Environments the rule applies to (optional, defaults to all) */
+	readonly env?: CspEnvironment | readonly CspEnvironment[];
+	/** Predicate deciding whether the rule applies (optional, checked after `env`) */
+	readonly when?: (context: CspRuleContext) => boolean;
+
 	// Fetch directives (source lists) - support both string and string array
 	readonly "base-uri"?: string | readonly string[];
 	readonly "child-src"?: string | readonly string[];
@@ -64,10 +152,313 @@ export interface CspRule {
 	readonly "block-all-mixed-content"?: boolean | "";
 }
 
-export interface SecurityOptions {
+/**
+ * Where a source expression in the final policy came from
+ *
+ * - `default`: the package's secure defaults
+ * - `rule`: a user rule (identified by position, `description`, and `source`)
+ * - `implicit`: `'self'` added automatically when a rule introduced a new source-list directive
+ *
+ * `copiedFrom` is set when the source was copied from a base directive into a
+ * granular one (e.g. from `script-src` into `script-src-elem`).
+ */
+export type PolicySourceOrigin = (
+	| { readonly kind: "default" }
+	| { readonly kind: "rule"; readonly ruleIndex: number; readonly description?: string; readonly source?: string }
+	| { readonly kind: "implicit"; readonly ruleIndex: number; readonly description?: string }
+) & { readonly copiedFrom?: string };
+
+/**
+ * A source expression in the final policy and everything that added it
+ * Valueless directives (e.g. `upgrade-insecure-requests`) have a single entry with an empty `value`.
+ */
+export interface ExplainedSource {
+	readonly value: string;
+	readonly addedBy: readonly PolicySourceOrigin[];
+}
+
+/**
+ * A source or directive removed by the policy optimizer
+ * - `strict-dynamic`: a host, scheme, or 'self' source ignored because of 'strict-dynamic'
+ * - `covered`: a source already matched by a broader source (`by`) in the same directive
+ * - `inherited`: a directive identical to the directive it falls back to (`by`)
+ */
+export interface CspOptimization {
+	readonly directive: string;
+	/** Removed source (absent when the whole directive was removed) */
+	readonly source?: string;
+	readonly reason: "strict-dynamic" | "covered" | "inherited";
+	/** Source or directive that made it redundant */
+	readonly by: string;
+}
+
+/**
+ * A directive name or value that doesn't match the CSP Level 3 grammar
+ * - `unknown-directive`: a directive name browsers don't recognize
+ * - `invalid-value`: a value that doesn't parse for its directive (e.g. `self` without quotes)
+ */
+export interface CspValidationIssue {
+	readonly code: "unknown-directive" | "invalid-value";
+	readonly directive: string;
+	/** Offending value (absent for unknown directives) */
+	readonly value?: string;
+	readonly message: string;
+	/** Likely intended directive or value, when the mistake is recognizable */
+	readonly suggestion?: string;
+	/** Index of the rule in the list that was validated */
+	readonly ruleIndex?: number;
+	/** Description of that rule */
+	readonly description?: string;
+}
+
+/**
+ * Bytes a directive or rule contributes to the CSP header
+ */
+export interface CspBudgetEntry {
+	/** Directive name, or rule description (`rules[<index>]` without one) */
+	readonly name: string;
+	readonly bytes: number;
+}
+
+/**
+ * How inline styles are allowed
+ * - `pragmatic`: `'unsafe-inline'` for styles (works with CSS-in-JS and dev tooling)
+ * - `strict`: `<style>` elements need the nonce or a hash; style attributes are blocked
+ */
+export type CspStyleMode = "pragmatic" | "strict";
+
+/**
+ * Style policy options
+ */
+export interface CspStyleOptions {
+	/** Inline style handling (defaults to "pragmatic") */
+	styles?: CspStyleMode | undefined;
+
+	/** Keep `style-src-attr 'unsafe-inline'` in strict mode (e.g. for libraries that set `style="…"`) */
+	inlineStyleAttributes?: boolean | undefined;
+}
+
+/**
+ * Options for analyzing a compiled policy (explainPolicy, evaluatePolicy)
+ */
+export interface PolicyAnalysisOptions extends CspStyleOptions {
+	/** Whether to analyze the development policy (defaults to NODE_ENV !== 'production') */
 	isDev?: boolean;
+
+	/** Environment to analyze (takes precedence over `isDev`) */
+	env?: CspEnvironment;
+
+	/** Profile overrides, as in `SecurityOptions.profiles` */
+	profiles?: Partial<Record<CspEnvironment, CspEnvironmentProfile>>;
+
+	/** Dev-server origins, as in `SecurityOptions.devServer` */
+	devServer?: DevServerOptions | undefined;
+
+	/** Analyze the optimized policy, as in `SecurityOptions.optimize` */
+	optimize?: boolean | undefined;
+
+	/**
+	 * Nonce to use in script directives (defaults to the literal `{nonce}`, as the middleware would emit)
+	 * Pass `false` to analyze the nonce-less policy used by the legacy handler.
+	 */
+	nonce?: string | false;
+}
+
+/**
+ * Severity of a policy finding, most severe first
+ */
+export type CspFindingSeverity = "high" | "medium" | "low" | "info";
+
+/**
+ * A weakness found in a compiled policy
+ */
+export interface CspFinding {
+	/** Stable identifier of the check (e.g. `script-scheme-source`) */
+	readonly id: string;
+	readonly severity: CspFindingSeverity;
+	/** Directive the finding applies to */
+	readonly directive: string;
+	/** Offending source expression, if the finding is about a specific value */
+	readonly value?: string;
+	readonly message: string;
+}
+
+/**
+ * How the CSP is delivered
+ *
+ * - `enforce`: `Content-Security-Policy` (default)
+ * - `report-only`: `Content-Security-Policy-Report-Only` (violations reported, nothing blocked)
+ * - `dual`: enforced policy plus a separate candidate policy in report-only
+ */
+export type CspMode = "enforce" | "report-only" | "dual";
+
+/**
+ * Matches a request pathname
+ *
+ * - string: exact path, or a glob where `*` matches any sequence of characters (including `/`)
+ * - RegExp: tested against the pathname
+ * - function: custom predicate
+ */
+export type CspPathMatcher = string | RegExp | ((pathname: string) => boolean);
+
+/**
+ * CSP rules that only apply to matching request paths
+ */
+export interface CspRoutePolicy {
+	/** Document why this route needs a different policy */
+	readonly description?: string;
+
+	/** Path pattern(s) this policy applies to */
+	readonly path: CspPathMatcher | readonly CspPathMatcher[];
+
+	/** Rules added for matching requests */
+	readonly rules: readonly CspRule[];
+
+	/** Replace the global rules instead of extending them (defaults are always kept) */
+	readonly replace?: boolean;
+}
+
+/**
+ * Trusted Types enforcement (require-trusted-types-for 'script' plus a trusted-types allowlist)
+ */
+export interface TrustedTypesOptions {
+	/**
+	 * Names of the policies the app may create (defaults to `["default"]`)
+	 * `"none"` (or an empty list) allows no policies, so every DOM XSS sink only accepts typed values.
+	 */
+	readonly policies?: readonly string[] | "none";
+
+	/** Allow creating several policies with the same name (`'allow-duplicates'`) */
+	readonly allowDuplicates?: boolean;
+
+	/**
+	 * In development, deliver Trusted Types as a separate report-only policy instead of enforcing it
+	 * Violations show up in the console (and your report endpoint) without breaking the page.
+	 */
+	readonly reportOnlyInDev?: boolean;
+}
+
+/**
+ * Network Error Logging policy (delivered in the NEL header)
+ */
+export interface NelOptions {
+	/** Endpoint name that receives network error reports (defaults to the CSP endpoint) */
+	readonly endpoint?: string;
+	/** Seconds browsers remember the policy (defaults to 1 day) */
+	readonly maxAge?: number;
+	/** Apply the policy to subdomains */
+	readonly includeSubdomains?: boolean;
+	/** Fraction of successful requests to report, 0-1 (defaults to 0) */
+	readonly successFraction?: number;
+	/** Fraction of failed requests to report, 0-1 (defaults to 1) */
+	readonly failureFraction?: number;
+}
+
+/**
+ * Named reporting endpoints (Reporting API)
+ */
+export interface ReportingOptions {
+	/** Endpoint names and URLs, e.g. `{ 'csp-endpoint': 'https://example.com/api/csp-report' }` */
+	readonly endpoints: Readonly<Record<string, string>>;
+
+	/**
+	 * Endpoint used by the CSP `report-to` directive (defaults to the first endpoint)
+	 * Pass `false` to declare endpoints without wiring them into CSP.
+	 */
+	readonly csp?: string | false;
+
+	/** Also send the legacy Report-To header (older Chromium); always sent when `nel` is set */
+	readonly legacyReportTo?: boolean;
+
+	/** Network Error Logging policy (optional) */
+	readonly nel?: NelOptions;
+}
+
+/**
+ * Cross-origin isolation presets
+ * - `isolated`: COOP same-origin + COEP require-corp (enables SharedArrayBuffer and wasm threads)
+ * - `isolated-credentialless`: like `isolated`, but cross-origin no-cors requests are sent without credentials instead of needing CORP
+ * - `popup-compatible`: COOP same-origin-allow-popups, no COEP (keeps OAuth and payment popups working)
+ */
+export type CrossOriginPreset = "isolated" | "isolated-credentialless" | "popup-compatible";
+
+/**
+ * Cross-Origin-Opener-Policy, -Embedder-Policy, and -Resource-Policy values
+ * Explicit values override the preset.
+ */
+export interface CrossOriginOptions {
+	readonly preset?: CrossOriginPreset;
+	readonly openerPolicy?: "same-origin" | "same-origin-allow-popups" | "noopener-allow-popups" | "unsafe-none";
+	readonly embedderPolicy?: "require-corp" | "credentialless" | "unsafe-none";
+	readonly resourcePolicy?: "same-origin" | "same-site" | "cross-origin";
+}
+
+/**
+ * Strict-Transport-Security options
+ * Unset flags are off; omit the whole option to keep the default (1 year, includeSubDomains, preload).
+ */
+export interface HstsOptions {
+	/** Seconds browsers only use HTTPS for the host (defaults to 31536000, one year) */
+	readonly maxAge?: number;
+	/** Apply to all subdomains */
+	readonly includeSubDomains?: boolean;
+	/** Opt into the browser preload list (hstspreload.org); hard to undo */
+	readonly preload?: boolean;
+}
+
+/**
+ * What a response is, for choosing which security headers it needs
+ * - `document`: HTML (and other scriptable documents); gets the full CSP and frame headers
+ * - `api`: JSON and other data responses; gets a minimal `default-src 'none'` policy and CORP
+ * - `asset`: scripts, stylesheets, images, fonts, media; gets only nosniff
+ */
+export type ResponseKind = "document" | "api" | "asset";
+
+/**
+ * How responses are classified into kinds
+ * Content-Type patterns are exact types (`application/vnd.api+json`) or prefixes (`image/*`).
+ */
+export interface ResponseKindOptions {
+	/** Extra Content-Type patterns per kind, checked before the built-in ones */
+	readonly contentTypes?: Partial<Record<ResponseKind, readonly string[]>>;
+	/** Custom classifier, consulted first; return undefined to fall back to Content-Type matching */
+	readonly classify?: (response: Response, request: Request) => ResponseKind | undefined;
+	/** Kind for responses with a missing or unrecognized Content-Type (defaults to "document") */
+	readonly fallback?: ResponseKind;
+}
+
+export interface SecurityOptions extends CspStyleOptions {
+	/** Development mode; superseded by `env` (true acts as "development", false as "production") */
+	isDev?: boolean;
+	/** Deployment environment: selects its profile and the rules that apply (takes precedence over `isDev`) */
+	env?: CspEnvironment;
+	/** Overrides for the built-in environment profiles (optional) */
+	profiles?: Partial<Record<CspEnvironment, CspEnvironmentProfile>>;
+	/** Dev-server origins for HMR and tooling, used only while dev tooling is on (optional, see devServerFromVite) */
+	devServer?: DevServerOptions;
 	nonce?: string;
 	headerConfig?: SecurityHeadersConfig;
+	/** Enforce Trusted Types for DOM XSS sinks (optional) */
+	trustedTypes?: TrustedTypesOptions;
+	/** Reporting endpoints for CSP violations and network errors (optional) */
+	reporting?: ReportingOptions;
+	/** Cross-origin isolation headers (COOP, COEP, CORP), as a preset or explicit values (optional) */
+	crossOrigin?: CrossOriginPreset | CrossOriginOptions;
+	/** Strict-Transport-Security settings, or false to never send it (optional) */
+	hsts?: HstsOptions | false;
+	/**
+	 * Read the request protocol and host from X-Forwarded-Proto/X-Forwarded-Host when deciding to send HSTS,
+	 * skipping plain-HTTP and IP-host requests (optional; without it HSTS is skipped only for localhost)
+	 */
+	trustProxy?: boolean;
+	/** Apply headers by response kind (document, api, asset) instead of sending the full set everywhere (optional) */
+	responseKinds?: boolean | ResponseKindOptions;
+	/** Drop redundant sources and directives from the compiled CSP (optional) */
+	optimize?: boolean;
+	/** Maximum CSP header size in bytes; a larger policy throws CspBudgetExceededError when compiled (optional) */
+	headerBudget?: number;
+	/** Throw CspValidationError for unknown directives and invalid values instead of warning (optional) */
+	strict?: boolean;
 }
 
 export interface SecurityHeadersConfig {
@@ -77,17 +468,59 @@ export interface SecurityHeadersConfig {
 	"X-XSS-Protection"?: string;
 	"Strict-Transport-Security"?: string;
 	"Permissions-Policy"?: string;
+	"Cross-Origin-Opener-Policy"?: string;
+	"Cross-Origin-Embedder-Policy"?: string;
+	"Cross-Origin-Resource-Policy"?: string;
 	"X-Powered-By"?: string;
 }
 
 export interface SecurityHeaders {
 	"Content-Security-Policy": string;
+	"Content-Security-Policy-Report-Only"?: string;
 	"X-Frame-Options": string;
 	"X-Content-Type-Options": string;
 	"Referrer-Policy": string;
 	"X-XSS-Protection": string;
-	"Strict-Transport-Security": string;
+	"Strict-Transport-Security"?: string;
 	"Permissions-Policy": string;
+	"Cross-Origin-Opener-Policy"?: string;
+	"Cross-Origin-Embedder-Policy"?: string;
+	"Cross-Origin-Resource-Policy"?: string;
+	"Reporting-Endpoints"?: string;
+	"Report-To"?: string;
+	NEL?: string;
 	"X-Powered-By"?: string;
 	"x-nonce"?: string;
 }
+
+/**
+ * Normalized CSP violation report
+ *
+ * Produced from both legacy `report-uri` payloads (`application/csp-report`)
+ * and Reporting API batches (`application/reports+json`).
+ */
+export interface CspViolation {
+	/** Which delivery mechanism the report arrived through */
+	format: "report-uri" | "report-to";
+	/** URL of the document where the violation occurred */
+	documentURL: string;
+	/** Directive whose enforcement caused the violation (e.g. `script-src-elem`) */
+	effectiveDirective: string;
+	/** Whether the policy was enforced or report-only */
+	disposition: "enforce" | "report";
+	/** URL of the blocked resource, or a keyword such as `inline` or `eval` */
+	blockedURL?: string;
+	/** Directive as written in the policy (legacy reports only) */
+	violatedDirective?: string;
+	/** Full policy that was violated */
+	originalPolicy?: string;
+	referrer?: string;
+	sourceFile?: string;
+	lineNumber?: number;
+	columnNumber?: number;
+	statusCode?: number;
+	/** First characters of the blocked inline script/style, if the policy uses 'report-sample' */
+	sample?: string;
+	/** User agent of the reporting browser (Reporting API reports only) */
+	userAgent?: string;
+}
@@ -0,0 +1,37 @@
+/**
+ * CSP grammar validation errors
+ * Reporting for rules with unknown directives or values browsers would ignore
+ */
+
+import type { CspValidationIssue } from "./types";
+
+/**
+ * Describe an issue on one line, with its fix and rule when known
+ * @param issue - Validation issue
+ * @returns Human-readable description
+ */
+export function formatValidationIssue(issue: CspValidationIssue): string {
+	const suggestion = issue.suggestion !== undefined ? ` Did you mean "${issue.suggestion}"?` : "";
+	const rule = issue.description ?? (issue.ruleIndex !== undefined ? `rules[${issue.ruleIndex}]` : undefined);
+	return `${issue.message}.${suggestion}${rule !== undefined ? ` (Rule: ${rule})` : ""}`;
+}
+
+/**
+ * Thrown in strict mode when rules contain unknown directives or invalid values
+ *
+ * Raised while policies are compiled, so the middleware fails at startup instead of
+ * shipping a policy whose broken parts browsers silently ignore.
+ */
+export class CspValidationError extends Error {
+	/** Every issue found, in rule order */
+	readonly issues: readonly CspValidationIssue[];
+
+	constructor(issues: readonly CspValidationIssue[]) {
+		super(
+			`[@enalmada/start-secure] Invalid CSP rules (${issues.length} issue${issues.length === 1 ? "" : "s"}):` +
+				issues.map((issue) => `\n  - ${formatValidationIssue(issue)}`).join(""),
+		);
+		this.name = "CspValidationError";
+		this.issues = issues;
+	}
+}
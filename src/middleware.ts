@@ -5,8 +5,18 @@
 
 import { createMiddleware } from "@tanstack/react-start";
 import { getResponseHeaders, setResponseHeaders } from "@tanstack/react-start/server";
-import { buildCspHeader } from "./internal/csp-builder";
-import type { CspRule, SecurityOptions } from "./internal/types";
+import { compileCspDirectives } from "./internal/compiler";
+import { resolveCrossOriginHeaders, warnOnCrossOriginConflicts } from "./internal/cross-origin";
+import { type CspTemplate, compileCspTemplate } from "./internal/csp-builder";
+import { resolveEnvironment, selectRulesForEnvironment } from "./internal/environment";
+import { evaluateCspDirectives } from "./internal/evaluator";
+import { buildHstsHeader, shouldSendHsts } from "./internal/hsts";
+import { buildPermissionsPolicy } from "./internal/permissions-policy";
+import { buildReportingHeaders } from "./internal/reporting-endpoints";
+import { applyResponseKindHeaders, classifyResponse } from "./internal/response-kinds";
+import { type CompiledRoutePolicy, compileRoutePolicies, matchRoutes, resolveRouteRules } from "./internal/routes";
+import { resolveTrustedTypes } from "./internal/trusted-types";
+import type { CspFinding, CspMode, CspRoutePolicy, CspRule, SecurityOptions } from "./internal/types";
 import { generateNonce } from "./nonce";
 
 /**
@@ -16,6 +26,21 @@ export interface CspMiddlewareConfig {
 	/** CSP rules to merge with defaults */
 	rules?: CspRule[];
 
+	/** Policy delivery mode (optional, defaults to "enforce") */
+	mode?: CspMode;
+
+	/**
+	 * Rules for the candidate report-only policy in "dual" mode (merged with defaults, not with `rules`)
+	 * Uses the same per-request nonce as the enforced policy.
+	 */
+	reportOnlyRules?: CspRule[];
+
+	/**
+	 * Per-route rules (optional), matched against the request pathname
+	 * Matching routes extend (or with `replace: true`, replace) both `rules` and `reportOnlyRules`.
+	 */
+	routes?: CspRoutePolicy[];
+
 	/** Security options */
 	options?: SecurityOptions;
 
@@ -24,12 +49,30 @@ export interface CspMiddlewareConfig {
 
 	/** Additional headers to set (optional) */
 	additionalHeaders?: Record<string, string>;
+
+	/**
+	 * Evaluate the global policy for weaknesses at startup (optional)
+	 * `true` logs high and medium severity findings; a function receives all findings.
+	 */
+	evaluate?: boolean | ((findings: CspFinding[]) => void);
+}
+
+/**
+ * Policies compiled for one combination of matching routes
+ */
+interface CompiledPolicies {
+	enforced: CspTemplate | undefined;
+	reportOnly: CspTemplate | undefined;
+	allowsFraming: boolean;
+	permissionsPolicy: string;
 }
 
 /**
  * Creates CSP middleware for TanStack Start
  *
  * Generates unique nonce per request, builds CSP header, and sets security headers.
+ * Rules are compiled into policy templates at creation time, so each request only
+ * substitutes its nonce.
  * The nonce is passed through context to the router for automatic script tag nonce application.
  *
  * @example
@@ -47,41 +90,186 @@ export interface CspMiddlewareConfig {
  *   ]
  * }));
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Keep enforcing the current policy while trialing a stricter one
+ * createCspMiddleware({
+ *   mode: 'dual',
+ *   rules: cspRules,
+ *   reportOnlyRules: strictCandidateRules,
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Allow partner sites to frame embeds, and Stripe only on checkout pages
+ * createCspMiddleware({
+ *   rules: cspRules,
+ *   routes: [
+ *     { path: '/admin/embed/*', rules: [{ 'frame-ancestors': 'https://partner.example.com' }] },
+ *     { path: '/checkout/*', rules: [stripeRule] },
+ *   ],
+ * });
+ * ```
  */
 export function createCspMiddleware(config: CspMiddlewareConfig = {}) {
-	const { rules = [], options = {}, nonceGenerator = generateNonce, additionalHeaders = {} } = config;
+	const {
+		rules: appRules = [],
+		mode = "enforce",
+		reportOnlyRules: candidateRules = [],
+		routes = [],
+		options = {},
+		nonceGenerator = generateNonce,
+		additionalHeaders = {},
+		evaluate = false,
+	} = config;
+
+	// Environment profile: dev relaxations, HSTS, and which rules (global, candidate, per-route) apply
+	const environment = resolveEnvironment(options);
+	const { isDev } = environment;
+	const activeAppRules = selectRulesForEnvironment(appRules, environment);
+	const activeCandidateRules = selectRulesForEnvironment(candidateRules, environment);
+	const activeRoutes = routes.map((route) => ({
+		...route,
+		rules: selectRulesForEnvironment(route.rules, environment),
+	}));
+	const buildOptions = {
+		styles: options.styles,
+		inlineStyleAttributes: options.inlineStyleAttributes,
+		devServer: options.devServer,
+		optimize: options.optimize,
+		headerBudget: options.headerBudget,
+		strict: options.strict,
+	};
+	const responseKinds = options.responseKinds === true ? {} : options.responseKinds || undefined;
+
+	// Named reporting endpoints: response headers plus report-to wiring (unless the rules set report-to)
+	const reporting = options.reporting ? buildReportingHeaders(options.reporting) : undefined;
+	const withReporting = (ruleSet: CspRule[]) =>
+		reporting?.rule && !ruleSet.some((rule) => rule["report-to"] !== undefined)
+			? [...ruleSet, reporting.rule]
+			: ruleSet;
 
-	return createMiddleware().server(({ next }) => {
-		const isDev = options.isDev ?? process.env.NODE_ENV !== "production";
+	// Trusted Types are enforced alongside the app's rules, or (in development, if asked) reported separately
+	const trustedTypes = resolveTrustedTypes(options.trustedTypes, withReporting(activeAppRules), isDev);
+	const withTrustedTypes = (ruleSet: CspRule[]) => (trustedTypes.rule ? [...ruleSet, trustedTypes.rule] : ruleSet);
+	// Reporting and Trusted Types are added after route resolution, so `replace: true` routes keep them
+	const resolvePolicyRules = (ruleSet: CspRule[], matched: CompiledRoutePolicy[]) =>
+		withTrustedTypes(withReporting(resolveRouteRules(ruleSet, matched)));
 
+	if (evaluate) {
+		// Rules are already filtered for the environment, so compile them as served instead of re-resolving it
+		const findings = evaluateCspDirectives(
+			compileCspDirectives(resolvePolicyRules(activeAppRules, []), { ...buildOptions, isDev, nonce: "{nonce}" }),
+		);
+		if (typeof evaluate === "function") {
+			evaluate(findings);
+		} else {
+			for (const finding of findings.filter((f) => f.severity === "high" || f.severity === "medium")) {
+				// biome-ignore lint/suspicious/noConsole: Security warnings are intentional
+				console.warn(
+					`[@enalmada/start-secure] CSP ${finding.severity} finding in ${finding.directive}: ${finding.message}`,
+				);
+			}
+		}
+	}
+	const compiledRoutes = compileRoutePolicies(activeRoutes);
+
+	// Compile policies once; each request only substitutes its nonce
+	const compilePolicies = (matched: CompiledRoutePolicy[]): CompiledPolicies => ({
+		enforced:
+			mode === "report-only"
+				? undefined
+				: compileCspTemplate(resolvePolicyRules(activeAppRules, matched), isDev, false, buildOptions),
+		reportOnly:
+			mode === "enforce"
+				? undefined
+				: compileCspTemplate(
+						resolvePolicyRules(mode === "dual" ? activeCandidateRules : activeAppRules, matched),
+						isDev,
+						true,
+						buildOptions,
+					),
+		allowsFraming: matched.some((match) => match.policy.rules.some((rule) => rule["frame-ancestors"] !== undefined)),
+		permissionsPolicy: buildPermissionsPolicy(resolveRouteRules(activeAppRules, matched)),
+	});
+
+	// Keyed by the indices of the matching routes ("" when none match)
+	const globalPolicies = compilePolicies([]);
+	const policyCache = new Map<string, CompiledPolicies>([["", globalPolicies]]);
+
+	// With a header budget or strict mode, each route's policy is checked at startup too
+	if (options.headerBudget !== undefined || options.strict) {
+		for (const route of compiledRoutes) {
+			policyCache.set(String(route.index), compilePolicies([route]));
+		}
+	}
+
+	// HSTS header from the profile (never in development), sent only on HTTPS requests to real hostnames
+	// Without an explicit env, isDev alone turns HSTS off
+	const hstsHeader =
+		environment.hsts === false || (isDev && options.env === undefined) ? undefined : buildHstsHeader(environment.hsts);
+
+	// Cross-origin isolation headers, checked once against the global policy
+	const crossOriginHeaders = options.crossOrigin ? resolveCrossOriginHeaders(options.crossOrigin) : {};
+	warnOnCrossOriginConflicts(
+		crossOriginHeaders,
+		(globalPolicies.enforced ?? globalPolicies.reportOnly)?.render("") ?? "",
+	);
+
+	return createMiddleware().server(async ({ request, pathname, next }) => {
 		// Generate unique nonce for this request
 		const nonce = nonceGenerator();
 
-		// Build CSP header with nonce
-		const cspHeader = buildCspHeader(rules, nonce, isDev);
+		// Look up (or compile on first use) the policies for this path's matching routes
+		const matched = matchRoutes(compiledRoutes, pathname);
+		const cacheKey = matched.map((route) => route.index).join(",");
+		let policies = policyCache.get(cacheKey);
+		if (!policies) {
+			// Overlapping routes are only combined here; a combination over budget throws on every such
+			// request rather than serving a policy that differs from the configuration
+			policies = compilePolicies(matched);
+			policyCache.set(cacheKey, policies);
+		}
 
 		// Get response headers
 		const headers = getResponseHeaders();
 
-		// Set Content Security Policy
-		headers.set("Content-Security-Policy", cspHeader);
+		// Set Content Security Policy (enforced, report-only, or both)
+		// In dual mode the candidate policy shares the nonce so nonce-bearing scripts are evaluated identically
+		if (policies.enforced) {
+			headers.set("Content-Security-Policy", policies.enforced.render(nonce));
+		}
+		// A standalone Trusted Types report-only policy is appended as a second policy (comma-separated)
+		const reportOnly = [policies.reportOnly?.render(nonce), trustedTypes.reportOnlyPolicy].filter(Boolean).join(", ");
+		if (reportOnly) {
+			headers.set("Content-Security-Policy-Report-Only", reportOnly);
+		}
 
 		// Set other security headers
-		headers.set("X-Frame-Options", "DENY");
+		// A route that opens up frame-ancestors must not be blocked again by X-Frame-Options
+		if (policies.allowsFraming) {
+			headers.delete("X-Frame-Options");
+		} else {
+			headers.set("X-Frame-Options", "DENY");
+		}
 		headers.set("X-Content-Type-Options", "nosniff");
 		headers.set("Referrer-Policy", "strict-origin-when-cross-origin");
 		headers.set("X-XSS-Protection", "1; mode=block");
 
-		// HSTS - only in production
-		if (!isDev) {
-			headers.set("Strict-Transport-Security", "max-age=31536000; includeSubDomains; preload");
+		// HSTS - only in production, over HTTPS, and not for localhost/IP hosts
+		if (hstsHeader && shouldSendHsts(request, options)) {
+			headers.set("Strict-Transport-Security", hstsHeader);
 		}
 
-		// Permissions Policy - restrict privacy-invasive features
-		headers.set(
-			"Permissions-Policy",
-			"accelerometer=(), camera=(), geolocation=(), gyroscope=(), magnetometer=(), microphone=(), payment=(), usb=(), interest-cohort=(), browsing-topics=()",
-		);
+		// Permissions Policy - restrict privacy-invasive features (plus allowances from rules)
+		headers.set("Permissions-Policy", policies.permissionsPolicy);
+
+		// Reporting API and cross-origin isolation headers
+		for (const [key, value] of Object.entries({ ...reporting?.headers, ...crossOriginHeaders })) {
+			headers.set(key, value);
+		}
 
 		// Apply additional custom headers
 		for (const [key, value] of Object.entries(additionalHeaders)) {
@@ -92,10 +280,23 @@ export function createCspMiddleware(config: CspMiddlewareConfig = {}) {
 		setResponseHeaders(headers);
 
 		// Pass nonce through context for router
-		return next({
+		const result = await next({
 			context: {
 				nonce,
 			},
 		});
+
+		// Once the response is known, API and asset responses only keep the headers that apply to them
+		// (response headers are merged into the response after the middleware chain returns)
+		if (responseKinds) {
+			const responseHeaders = getResponseHeaders();
+			applyResponseKindHeaders(responseHeaders, classifyResponse(result.response, request, responseKinds));
+			for (const [key, value] of Object.entries(additionalHeaders)) {
+				responseHeaders.set(key, value);
+			}
+			setResponseHeaders(responseHeaders);
+		}
+
+		return result;
 	});
 }
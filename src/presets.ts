@@ -0,0 +1,234 @@
+/**
+ * CSP rule presets for common third-party services
+ * Each preset sets `description` and `source`, so explainPolicy shows where its origins came from.
+ * Origins follow each vendor's published CSP guidance; update them here (with a changeset and a version bump) when vendors change.
+ */
+
+import type { CspRule } from "./internal/types";
+
+/**
+ * Version of each preset, bumped whenever its origins change
+ * Included in the rule's `source` (e.g. `@enalmada/start-secure/presets:stripe@1`), so explainPolicy and
+ * policy diffs show which preset revision an origin came from.
+ */
+export const cspPresetVersions = {
+	"google-fonts": 1,
+	"google-analytics": 1,
+	"google-sign-in": 1,
+	sentry: 1,
+	posthog: 1,
+	stripe: 1,
+	"cloudflare-turnstile": 1,
+	recaptcha: 1,
+	youtube: 1,
+	vimeo: 1,
+	intercom: 1,
+} as const;
+
+/**
+ * Mark a preset rule with its name, version, and origin
+ */
+function preset(name: keyof typeof cspPresetVersions, directives: Omit<CspRule, "description" | "source">): CspRule {
+	return {
+		description: name,
+		source: `@enalmada/start-secure/presets:${name}@${cspPresetVersions[name]}`,
+		...directives,
+	};
+}
+
+/**
+ * Options for the Sentry preset
+ */
+export interface SentryPresetOptions {
+	/** Data region of the Sentry organization (defaults to "us") */
+	region?: "us" | "de";
+	/** Allow the Sentry Loader Script from browser.sentry-cdn.com */
+	loader?: boolean;
+}
+
+/**
+ * Options for the PostHog preset
+ */
+export interface PostHogPresetOptions {
+	/** PostHog Cloud region (defaults to "us") */
+	region?: "us" | "eu";
+	/** Reverse-proxy host (e.g. "https://ph.example.com"), used instead of PostHog Cloud origins */
+	host?: string;
+}
+
+/**
+ * Options for the YouTube preset
+ */
+export interface YouTubePresetOptions {
+	/** Embed from youtube-nocookie.com (privacy-enhanced mode, the default) instead of youtube.com */
+	privacyEnhanced?: boolean;
+}
+
+/**
+ * Options for the reCAPTCHA preset
+ */
+export interface RecaptchaPresetOptions {
+	/** Also allow www.recaptcha.net (for regions where www.google.com is blocked) */
+	recaptchaNet?: boolean;
+}
+
+/**
+ * Google Fonts stylesheets and font files
+ */
+function googleFonts(): CspRule {
+	return preset("google-fonts", {
+		"style-src": "https://fonts.googleapis.com",
+		"font-src": "https://fonts.gstatic.com",
+	});
+}
+
+/**
+ * Google Analytics 4 and Google Tag Manager
+ */
+function googleAnalytics(): CspRule {
+	return preset("google-analytics", {
+		"script-src": "https://*.googletagmanager.com",
+		"img-src": "https://*.google-analytics.com https://*.googletagmanager.com",
+		"connect-src": "https://*.google-analytics.com https://*.analytics.google.com https://*.googletagmanager.com",
+	});
+}
+
+/**
+ * Sign in with Google (Google Identity Services and OAuth redirects)
+ */
+function googleSignIn(): CspRule {
+	return preset("google-sign-in", {
+		"script-src": "https://accounts.google.com/gsi/client",
+		"frame-src": "https://accounts.google.com/gsi/",
+		"connect-src": "https://accounts.google.com/gsi/",
+		"style-src": "https://accounts.google.com/gsi/style",
+		"form-action": "https://accounts.google.com",
+		"img-src": "https://*.googleusercontent.com",
+	});
+}
+
+/**
+ * Sentry error and performance reporting
+ */
+function sentry(options: SentryPresetOptions = {}): CspRule {
+	const { region = "us", loader = false } = options;
+	return preset("sentry", {
+		"connect-src":
+			region === "de" ? "https://*.ingest.de.sentry.io" : "https://*.ingest.sentry.io https://*.ingest.us.sentry.io",
+		...(loader ? { "script-src": "https://browser.sentry-cdn.com https://js.sentry-cdn.com" } : {}),
+	});
+}
+
+/**
+ * PostHog product analytics
+ */
+function posthog(options: PostHogPresetOptions = {}): CspRule {
+	const { region = "us", host } = options;
+	if (host) {
+		return preset("posthog", { "script-src": host, "connect-src": host });
+	}
+	return preset("posthog", {
+		"script-src": `https://${region}-assets.i.posthog.com`,
+		"connect-src": `https://${region}.i.posthog.com https://${region}-assets.i.posthog.com`,
+	});
+}
+
+/**
+ * Stripe.js, Elements, and Checkout redirects
+ */
+function stripe(): CspRule {
+	return preset("stripe", {
+		"script-src": "https://js.stripe.com https://*.js.stripe.com",
+		"frame-src": "https://js.stripe.com https://*.js.stripe.com https://hooks.stripe.com",
+		"connect-src": "https://api.stripe.com",
+		"form-action": "https://checkout.stripe.com",
+	});
+}
+
+/**
+ * Cloudflare Turnstile
+ */
+function cloudflareTurnstile(): CspRule {
+	return preset("cloudflare-turnstile", {
+		"script-src": "https://challenges.cloudflare.com",
+		"frame-src": "https://challenges.cloudflare.com",
+	});
+}
+
+/**
+ * Google reCAPTCHA (v2 and v3)
+ */
+function recaptcha(options: RecaptchaPresetOptions = {}): CspRule {
+	const net = options.recaptchaNet ? ["https://www.recaptcha.net/recaptcha/"] : [];
+	return preset("recaptcha", {
+		"script-src": ["https://www.google.com/recaptcha/", "https://www.gstatic.com/recaptcha/", ...net],
+		"frame-src": ["https://www.google.com/recaptcha/", "https://recaptcha.google.com/recaptcha/", ...net],
+	});
+}
+
+/**
+ * YouTube embeds
+ */
+function youtube(options: YouTubePresetOptions = {}): CspRule {
+	const { privacyEnhanced = true } = options;
+	return preset("youtube", {
+		"frame-src": privacyEnhanced ? "https://www.youtube-nocookie.com" : "https://www.youtube.com",
+		"img-src": "https://i.ytimg.com",
+	});
+}
+
+/**
+ * Vimeo embeds
+ */
+function vimeo(): CspRule {
+	return preset("vimeo", {
+		"frame-src": "https://player.vimeo.com",
+		"img-src": "https://i.vimeocdn.com",
+	});
+}
+
+/**
+ * Intercom Messenger
+ */
+function intercom(): CspRule {
+	return preset("intercom", {
+		"script-src": "https://app.intercom.io https://widget.intercom.io https://js.intercomcdn.com",
+		"connect-src":
+			"https://*.intercom.io wss://*.intercom.io https://*.intercomcdn.com https://*.intercomcdn.eu https://uploads.intercomusercontent.com",
+		"img-src":
+			"https://*.intercomcdn.com https://*.intercomcdn.eu https://static.intercomassets.com https://*.intercomusercontent.com https://*.intercom.io",
+		"font-src": "https://js.intercomcdn.com https://fonts.intercomcdn.com",
+		"media-src": "https://js.intercomcdn.com https://downloads.intercomcdn.com",
+		"frame-src": "https://intercom-sheets.com https://www.intercom-reporting.com",
+		"form-action": "https://intercom.help https://api-iam.intercom.io",
+	});
+}
+
+/**
+ * CSP rule presets for common third-party services
+ *
+ * @example
+ * ```typescript
+ * import { cspPresets } from '@enalmada/start-secure';
+ *
+ * export const cspRules: CspRule[] = [
+ *   cspPresets.googleFonts(),
+ *   cspPresets.sentry({ region: 'de' }),
+ *   cspPresets.posthog({ host: 'https://ph.example.com' }),
+ *   cspPresets.stripe(),
+ * ];
+ * ```
+ */
+export const cspPresets = {
+	googleFonts,
+	googleAnalytics,
+	googleSignIn,
+	sentry,
+	posthog,
+	stripe,
+	cloudflareTurnstile,
+	recaptcha,
+	youtube,
+	vimeo,
+	intercom,
+} as const;
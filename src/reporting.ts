@@ -0,0 +1,116 @@
+/**
+ * CSP violation report endpoint
+ * Receives report-uri and Reporting API payloads and forwards normalized violations
+ */
+
+import { parseCspReport } from "./internal/report-parser";
+import type { CspViolation } from "./internal/types";
+
+const REPORT_CONTENT_TYPES = new Set(["application/csp-report", "application/reports+json", "application/json"]);
+
+/**
+ * Configuration for the CSP report handler
+ */
+export interface CspReportHandlerConfig {
+	/** Sink called once per violation (e.g. log, forward to Sentry, write to a queue) */
+	onViolation: (violation: CspViolation, request: Request) => void | Promise<void>;
+
+	/** Maximum accepted body size in bytes (optional, defaults to 64KB) */
+	maxBodySize?: number;
+}
+
+/**
+ * Read a request body as text, giving up once it exceeds `maxBytes`
+ * Counts bytes as they arrive, so a chunked body without Content-Length is never buffered past the limit.
+ *
+ * @returns Body text, or undefined if the body is too large
+ */
+async function readBodyWithLimit(request: Request, maxBytes: number): Promise<string | undefined> {
+	if (!request.body) return "";
+
+	const reader = request.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		size += value.byteLength;
+		if (size > maxBytes) {
+			await reader.cancel();
+			return undefined;
+		}
+		chunks.push(value);
+	}
+
+	const decoder = new TextDecoder();
+	return chunks.map((chunk) => decoder.decode(chunk, { stream: true })).join("") + decoder.decode();
+}
+
+/**
+ * Creates a request handler that accepts CSP violation reports
+ *
+ * Understands both the legacy `report-uri` format (`application/csp-report`) and
+ * Reporting API batches (`application/reports+json`). Every report is normalized into a
+ * `CspViolation` and passed to `onViolation`. Responds with 204 on success.
+ *
+ * @example
+ * ```typescript
+ * // src/routes/api/csp-report.ts
+ * import { createFileRoute } from '@tanstack/react-router';
+ * import { createCspReportHandler } from '@enalmada/start-secure';
+ *
+ * const handleReport = createCspReportHandler({
+ *   onViolation: (violation) => console.warn('CSP violation', violation),
+ * });
+ *
+ * export const Route = createFileRoute('/api/csp-report')({
+ *   server: { handlers: { POST: ({ request }) => handleReport(request) } },
+ * });
+ *
+ * // cspRules.ts
+ * { description: 'csp-reporting', 'report-uri': '/api/csp-report' }
+ * ```
+ */
+export function createCspReportHandler(config: CspReportHandlerConfig) {
+	const { onViolation, maxBodySize = 64 * 1024 } = config;
+
+	return async function cspReportHandler(request: Request): Promise<Response> {
+		if (request.method !== "POST") {
+			return new Response(null, { status: 405, headers: { Allow: "POST" } });
+		}
+
+		const contentType = (request.headers.get("content-type") ?? "").split(";")[0]?.trim().toLowerCase() ?? "";
+		if (!REPORT_CONTENT_TYPES.has(contentType)) {
+			return new Response(null, { status: 415 });
+		}
+
+		const declaredLength = Number(request.headers.get("content-length"));
+		if (declaredLength > maxBodySize) {
+			return new Response(null, { status: 413 });
+		}
+
+		const body = await readBodyWithLimit(request, maxBodySize);
+		if (body === undefined) {
+			return new Response(null, { status: 413 });
+		}
+
+		let payload: unknown;
+		try {
+			payload = JSON.parse(body);
+		} catch {
+			return new Response(null, { status: 400 });
+		}
+
+		for (const violation of parseCspReport(payload)) {
+			try {
+				await onViolation(violation, request);
+			} catch (error) {
+				// Browsers never retry reports, so a failing sink must not turn into a 5xx loop
+				// biome-ignore lint/suspicious/noConsole: Surfacing sink failures is intentional
+				console.error("[@enalmada/start-secure] CSP report sink failed:", error);
+			}
+		}
+
+		return new Response(null, { status: 204 });
+	};
+}
@@ -0,0 +1,96 @@
+/**
+ * Security header export for static hosts and reverse proxies
+ * Renders the same rules the middleware uses into host configuration files
+ */
+
+import { generateStaticSecurityHeaders } from "./internal/generator";
+import type { CspRule, SecurityOptions } from "./internal/types";
+
+/**
+ * Host configuration formats
+ * - `netlify`: Netlify `_headers` file (also read by Cloudflare Pages)
+ * - `cloudflare`: Cloudflare Pages `_headers` file
+ * - `vercel`: `vercel.json` with a `headers` entry
+ * - `nginx`: `add_header` directives to include in a `server` or `location` block
+ * - `caddy`: Caddyfile `header` block
+ */
+export type StaticHeadersFormat = "netlify" | "cloudflare" | "vercel" | "nginx" | "caddy";
+
+/**
+ * Options for exporting static host headers
+ */
+export interface StaticHeadersOptions extends Omit<SecurityOptions, "nonce" | "responseKinds"> {
+	/** Output format */
+	format: StaticHeadersFormat;
+	/**
+	 * Path the headers apply to, in the host's own syntax (optional)
+	 * Defaults to every path: `/*` for `_headers`, `/(.*)` for Vercel, no matcher for Caddy. Ignored for nginx.
+	 */
+	path?: string;
+}
+
+/**
+ * Quote a value for nginx and Caddy configuration
+ */
+function quote(value: string): string {
+	return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Render headers in a host's configuration format
+ */
+function renderHeaders(headers: [name: string, value: string][], format: StaticHeadersFormat, path?: string): string {
+	switch (format) {
+		case "netlify":
+		case "cloudflare":
+			return `${[path ?? "/*", ...headers.map(([name, value]) => `  ${name}: ${value}`)].join("\n")}\n`;
+		case "vercel":
+			return `${JSON.stringify(
+				{
+					headers: [{ source: path ?? "/(.*)", headers: headers.map(([key, value]) => ({ key, value })) }],
+				},
+				null,
+				2,
+			)}\n`;
+		case "nginx":
+			return headers.map(([name, value]) => `add_header ${name} ${quote(value)} always;\n`).join("");
+		case "caddy":
+			return `${[
+				path ? `header ${path} {` : "header {",
+				...headers.map(([name, value]) => `\t${name} ${quote(value)}`),
+				"}",
+			].join("\n")}\n`;
+	}
+}
+
+/**
+ * Export security headers as configuration for a static host or reverse proxy
+ *
+ * Static hosts can't generate a nonce per request, so scripts are allowed by 'self' and the
+ * rules' `hashes.scripts` only (use `hashInlineContent` for each inline script). Other headers
+ * (HSTS, Permissions-Policy, reporting, cross-origin isolation) are built as the middleware
+ * builds them. Defaults to production (`isDev: false`).
+ *
+ * @param rules - CSP rules (the same `cspRules` passed to the middleware)
+ * @param options - Output format, path, and security options
+ * @returns File contents for the chosen format
+ *
+ * @example
+ * ```typescript
+ * import { writeFileSync } from 'node:fs';
+ * import { exportStaticHeaders, hashInlineContent } from '@enalmada/start-secure';
+ * import { cspRules } from './src/config/cspRules';
+ *
+ * const themeHash = await hashInlineContent(themeScript);
+ * const rules = [...cspRules, { description: 'theme', hashes: { scripts: [themeHash] } }];
+ *
+ * writeFileSync('dist/_headers', exportStaticHeaders(rules, { format: 'netlify' }));
+ * ```
+ */
+export function exportStaticHeaders(rules: CspRule[], options: StaticHeadersOptions): string {
+	const { format, path, ...securityOptions } = options;
+	const headers = Object.entries(generateStaticSecurityHeaders(rules, securityOptions)).filter(
+		(entry): entry is [string, string] => entry[1] !== undefined,
+	);
+	return renderHeaders(headers, format, path);
+}
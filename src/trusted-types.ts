@@ -0,0 +1,121 @@
+/**
+ * Client-side Trusted Types helpers
+ * Registers a default policy so legacy DOM sink usage is sanitized instead of blocked
+ */
+
+/**
+ * Minimal Trusted Types API surface (not yet part of TypeScript's DOM lib)
+ */
+export interface TrustedTypePolicyLike {
+	readonly name: string;
+	createHTML(input: string, ...args: unknown[]): unknown;
+	createScript(input: string, ...args: unknown[]): unknown;
+	createScriptURL(input: string, ...args: unknown[]): unknown;
+}
+
+interface TrustedTypePolicyFactoryLike {
+	readonly defaultPolicy: TrustedTypePolicyLike | null;
+	createPolicy(
+		name: string,
+		rules: {
+			createHTML?: (input: string) => string | null;
+			createScript?: (input: string) => string | null;
+			createScriptURL?: (input: string) => string | null;
+		},
+	): TrustedTypePolicyLike;
+}
+
+/**
+ * Options for the default Trusted Types policy
+ */
+export interface DefaultTrustedTypesPolicyConfig {
+	/**
+	 * Sanitizer for HTML assigned to sinks like innerHTML (e.g. `DOMPurify.sanitize`)
+	 * Defaults to escaping the markup, so injected HTML is rendered as text.
+	 */
+	sanitizeHTML?: (html: string) => string;
+
+	/**
+	 * Origins (besides the page's own) that script URLs may load from
+	 * Script URLs from any other origin are blocked and reported.
+	 */
+	scriptUrlOrigins?: readonly string[];
+
+	/**
+	 * Handler for strings passed to eval-like sinks (optional)
+	 * Return the script to allow it, or null to block it. Blocked by default.
+	 */
+	createScript?: (script: string) => string | null;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+	"'": "&#39;",
+};
+
+/**
+ * Escape markup so it renders as text
+ */
+function escapeHTML(html: string): string {
+	return html.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char);
+}
+
+/**
+ * Register the `default` Trusted Types policy in the browser
+ *
+ * Browsers call the default policy for every plain string assigned to a DOM XSS sink
+ * (innerHTML, script.src, eval, ...). This policy sanitizes HTML, allows same-origin (and
+ * listed) script URLs, and blocks everything else, so existing code keeps working while
+ * injected payloads are neutralized.
+ *
+ * Add `'default'` to `trustedTypes.policies` (it is the default) so the CSP allows this policy.
+ * Call once, as early as possible on the client; calling again returns the existing policy.
+ *
+ * @param config - Policy options
+ * @returns The default policy, or undefined where Trusted Types are not supported (or on the server)
+ *
+ * @example
+ * ```typescript
+ * import DOMPurify from 'dompurify';
+ * import { registerDefaultTrustedTypesPolicy } from '@enalmada/start-secure';
+ *
+ * registerDefaultTrustedTypesPolicy({
+ *   sanitizeHTML: (html) => DOMPurify.sanitize(html),
+ *   scriptUrlOrigins: ['https://js.stripe.com'],
+ * });
+ * ```
+ */
+export function registerDefaultTrustedTypesPolicy(
+	config: DefaultTrustedTypesPolicyConfig = {},
+): TrustedTypePolicyLike | undefined {
+	const factory = (globalThis as { trustedTypes?: TrustedTypePolicyFactoryLike }).trustedTypes;
+	if (!factory) {
+		return undefined;
+	}
+	if (factory.defaultPolicy) {
+		return factory.defaultPolicy;
+	}
+
+	const { sanitizeHTML = escapeHTML, scriptUrlOrigins = [], createScript = () => null } = config;
+	const pageOrigin = globalThis.location?.origin;
+	const allowedOrigins = new Set([
+		...(pageOrigin ? [pageOrigin] : []),
+		...scriptUrlOrigins.map((origin) => new URL(origin).origin),
+	]);
+
+	return factory.createPolicy("default", {
+		createHTML: (input) => sanitizeHTML(input),
+		createScript: (input) => createScript(input),
+		createScriptURL: (input) => {
+			try {
+				const url = new URL(input, globalThis.location?.href);
+				return allowedOrigins.has(url.origin) ? url.href : null;
+			} catch {
+				return null;
+			}
+		},
+	});
+}
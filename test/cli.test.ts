@@ -0,0 +1,197 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { runCli } from "../src/cli";
+
+let cwd: string;
+
+/**
+ * Run the CLI in the temp directory and capture its output
+ */
+async function run(...args: string[]) {
+	let out = "";
+	let err = "";
+	const code = await runCli(args, {
+		out: (text) => {
+			out += text;
+		},
+		err: (text) => {
+			err += text;
+		},
+		cwd,
+	});
+	return { code, out, err };
+}
+
+beforeEach(() => {
+	cwd = mkdtempSync(join(tmpdir(), "start-secure-cli-"));
+});
+
+afterEach(() => {
+	rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("start-secure print", () => {
+	test("prints the production policy from the default JSON config", async () => {
+		writeFileSync(
+			join(cwd, "start-secure.config.json"),
+			JSON.stringify({ rules: [{ description: "api", "connect-src": "https://api.example.com" }] }),
+		);
+
+		const { code, out } = await run("print");
+
+		expect(code).toBe(0);
+		expect(out).toContain("connect-src 'self' https://api.example.com");
+		expect(out).toContain("script-src 'nonce-{nonce}' 'strict-dynamic';");
+		expect(out).not.toContain("'unsafe-eval'");
+		expect(out.trim().split("\n")).toHaveLength(1);
+	});
+
+	test("loads a module config with options", async () => {
+		writeFileSync(
+			join(cwd, "csp.mjs"),
+			`export const cspRules = [{ description: "fonts", "font-src": "https://fonts.gstatic.com" }];
+export const options = { styles: "strict" };`,
+		);
+
+		const { out } = await run("print", "csp.mjs", "--env", "development", "--pretty", "--headers");
+
+		expect(out).toContain("font-src 'self' https://fonts.gstatic.com;\n");
+		expect(out).toContain("'unsafe-eval'");
+		expect(out).toContain("style-src-attr 'none'");
+		expect(out).toContain("X-Frame-Options: DENY");
+	});
+
+	test("prints a named environment's rules", async () => {
+		writeFileSync(
+			join(cwd, "rules.json"),
+			JSON.stringify([{ description: "toolbar", env: ["staging"], "frame-src": "https://vercel.live" }]),
+		);
+
+		expect((await run("print", "rules.json", "--env", "staging")).out).toContain("frame-src https://vercel.live");
+		expect((await run("print", "rules.json")).out).toContain("frame-src 'none'");
+	});
+
+	test("reports usage errors with exit code 2", async () => {
+		writeFileSync(join(cwd, "rules.json"), JSON.stringify([]));
+
+		expect((await run("print", "missing.json")).code).toBe(2);
+		expect((await run("print", "rules.json", "--env", "qa")).err).toContain('Unknown environment "qa"');
+		expect((await run("publish", "rules.json")).err).toContain('Unknown command "publish"');
+		expect((await run("print", "rules.json", "--bogus")).code).toBe(2);
+	});
+});
+
+describe("start-secure lint", () => {
+	test("exits 1 on findings at or above --fail-on", async () => {
+		writeFileSync(join(cwd, "rules.json"), JSON.stringify([{ description: "plugins", "object-src": "*" }]));
+
+		const { code, out } = await run("lint", "rules.json", "--fail-on", "medium");
+
+		expect(code).toBe(1);
+		expect(out).toMatch(/^MEDIUM object-src/m);
+		expect((await run("lint", "rules.json")).code).toBe(0);
+		expect((await run("lint", "rules.json", "--fail-on", "severe")).code).toBe(2);
+	});
+
+	test("exits 0 when nothing reaches the threshold", async () => {
+		writeFileSync(join(cwd, "rules.json"), JSON.stringify([]));
+
+		const { code, out } = await run("lint", "rules.json");
+
+		expect(code).toBe(0);
+		expect(out).toContain("0 at or above high");
+	});
+});
+
+describe("header budget", () => {
+	test("exits 1 with the size report when the policy is over budget", async () => {
+		writeFileSync(
+			join(cwd, "start-secure.config.json"),
+			JSON.stringify({
+				rules: [{ description: "analytics", "connect-src": "https://collector.example.com" }],
+				options: { headerBudget: 300 },
+			}),
+		);
+
+		const { code, out, err } = await run("print");
+
+		expect(code).toBe(1);
+		expect(out).toBe("");
+		expect(err).toContain("over the 300-byte budget");
+		expect(err).toContain("\n  analytics: ");
+	});
+});
+
+describe("strict mode", () => {
+	test("exits 1 with the grammar issues", async () => {
+		writeFileSync(
+			join(cwd, "start-secure.config.json"),
+			JSON.stringify({ rules: [{ "script-scr": "https://cdn.example.com" }], options: { strict: true } }),
+		);
+
+		const { code, err } = await run("lint");
+
+		expect(code).toBe(1);
+		expect(err).toContain('Unknown directive "script-scr". Did you mean "script-src"?');
+	});
+});
+
+describe("start-secure diff", () => {
+	test("compares environments", async () => {
+		writeFileSync(join(cwd, "rules.json"), JSON.stringify([]));
+
+		const { code, out } = await run("diff", "rules.json", "--from-env", "production", "--to-env", "development");
+
+		expect(code).toBe(0);
+		expect(out).toContain("--- working tree (production)\n+++ working tree (development)\n");
+		expect(out).toContain("  connect-src\n    + ws://localhost:*");
+	});
+
+	test("compares a git revision with the working tree", async () => {
+		const git = (...args: string[]) => execFileSync("git", args, { cwd, stdio: "ignore" });
+		git("init", "-q");
+		writeFileSync(join(cwd, "rules.json"), JSON.stringify([{ "img-src": "https://old.example.com" }]));
+		git("add", ".");
+		git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-qm", "rules");
+		writeFileSync(join(cwd, "rules.json"), JSON.stringify([{ "img-src": "https://new.example.com" }]));
+
+		const { code, out } = await run("diff", "rules.json", "--from-rev", "HEAD", "--exit-code");
+
+		expect(code).toBe(1);
+		expect(out).toContain("    - https://old.example.com\n    + https://new.example.com");
+	});
+
+	test("loads a module config's revision together with the files it imports at that revision", async () => {
+		const git = (...args: string[]) => execFileSync("git", args, { cwd, encoding: "utf8" });
+		git("init", "-q");
+		writeFileSync(join(cwd, "hosts.mjs"), 'export const cdn = "https://cdn.example.com";');
+		writeFileSync(
+			join(cwd, "rules.mjs"),
+			'import { cdn } from "./hosts.mjs";\nexport const cspRules = [{ "img-src": cdn }];',
+		);
+		git("add", ".");
+		git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-qm", "rules");
+		// Only the imported file changes
+		writeFileSync(join(cwd, "hosts.mjs"), 'export const cdn = "https://new.example.com";');
+
+		const { code, out } = await run("diff", "rules.mjs", "--from-rev", "HEAD", "--exit-code");
+
+		expect(code).toBe(1);
+		expect(out).toContain("    - https://cdn.example.com\n    + https://new.example.com");
+		expect(readdirSync(cwd).sort()).toEqual([".git", "hosts.mjs", "node_modules", "rules.mjs"]);
+		expect(readdirSync(join(cwd, "node_modules", ".cache", "start-secure"))).toEqual([]);
+		expect(git("worktree", "list").trim().split("\n")).toHaveLength(1);
+	});
+
+	test("reports no changes", async () => {
+		writeFileSync(join(cwd, "rules.json"), JSON.stringify([]));
+
+		const { code, out } = await run("diff", "rules.json", "--exit-code");
+
+		expect(code).toBe(0);
+		expect(out).toContain("No policy changes");
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test, vi } from "vitest";
+import { createCspMiddleware, generateSecurityHeaders } from "../src";
+import { runMiddleware } from "./helpers/middleware";
+
+describe("cross-origin isolation headers", () => {
+	test("are not set by default", () => {
+		const headers = generateSecurityHeaders([], { isDev: false });
+
+		expect(headers["Cross-Origin-Opener-Policy"]).toBeUndefined();
+		expect(headers["Cross-Origin-Embedder-Policy"]).toBeUndefined();
+		expect(headers["Cross-Origin-Resource-Policy"]).toBeUndefined();
+	});
+
+	test("isolated preset enables cross-origin isolation", () => {
+		const headers = generateSecurityHeaders([], { isDev: false, crossOrigin: "isolated" });
+
+		expect(headers["Cross-Origin-Opener-Policy"]).toBe("same-origin");
+		expect(headers["Cross-Origin-Embedder-Policy"]).toBe("require-corp");
+		expect(headers["Cross-Origin-Resource-Policy"]).toBe("same-origin");
+	});
+
+	test("popup-compatible preset keeps popups working without COEP", () => {
+		const headers = generateSecurityHeaders([], { isDev: false, crossOrigin: "popup-compatible" });
+
+		expect(headers["Cross-Origin-Opener-Policy"]).toBe("same-origin-allow-popups");
+		expect(headers["Cross-Origin-Embedder-Policy"]).toBeUndefined();
+	});
+
+	test("explicit values and headerConfig override the preset", () => {
+		const headers = generateSecurityHeaders([], {
+			isDev: false,
+			crossOrigin: { preset: "isolated", resourcePolicy: "same-site" },
+			headerConfig: { "Cross-Origin-Embedder-Policy": "credentialless" },
+		});
+
+		expect(headers["Cross-Origin-Resource-Policy"]).toBe("same-site");
+		expect(headers["Cross-Origin-Embedder-Policy"]).toBe("credentialless");
+	});
+
+	test("middleware sets the preset headers", async () => {
+		const middleware = createCspMiddleware({ options: { isDev: false, crossOrigin: "isolated" } });
+		const { headers } = await runMiddleware(middleware);
+
+		expect(headers.get("Cross-Origin-Opener-Policy")).toBe("same-origin");
+		expect(headers.get("Cross-Origin-Embedder-Policy")).toBe("require-corp");
+	});
+});
+
+describe("cross-origin isolation validation", () => {
+	test("warns when require-corp will block cross-origin images", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		generateSecurityHeaders([{ "img-src": "https://images.example.com" }], { isDev: false, crossOrigin: "isolated" });
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("img-src sources https://images.example.com"));
+		warn.mockRestore();
+	});
+
+	test("credentialless only warns about framed documents", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		generateSecurityHeaders(
+			[{ "img-src": "https://images.example.com", "frame-src": "https://www.youtube-nocookie.com" }],
+			{ isDev: false, crossOrigin: "isolated-credentialless" },
+		);
+
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("frame-src"));
+		warn.mockRestore();
+	});
+
+	test("does not warn for same-origin, data:, and blob: sources", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		generateSecurityHeaders([], { isDev: false, crossOrigin: "isolated" });
+		createCspMiddleware({ options: { isDev: false, crossOrigin: "isolated" } });
+
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "vitest";
 import { buildCspHeader } from "../src";
+import { compileCspTemplate } from "../src/internal/csp-builder";
 import type { CspRule } from "../src/internal/types";
 
 describe("buildCspHeader - 'none' keyword handling", () => {
@@ -341,3 +342,91 @@ describe("buildCspHeader - basic functionality", () => {
 		expect(frameSrcMatch?.[1]).not.toContain("'none'");
 	});
 });
+
+describe("buildCspHeader - strict styles", () => {
+	const HASH = "'sha256-qznLcsROx4GACP2dm0UCKCzCG+HiZ1guq6ZZDob/Tng='";
+
+	test("uses the nonce instead of 'unsafe-inline' for style elements", () => {
+		const csp = buildCspHeader([], "abc123", false, { styles: "strict" });
+
+		expect(csp).toContain("style-src 'self' 'nonce-abc123';");
+		expect(csp).toContain("style-src-elem 'self' 'nonce-abc123';");
+		expect(csp).toContain("style-src-attr 'none';");
+		expect(csp).not.toMatch(/style-src[^;]*'unsafe-inline'/);
+	});
+
+	test("keeps inline style attributes when configured", () => {
+		const csp = buildCspHeader([], "abc123", false, { styles: "strict", inlineStyleAttributes: true });
+
+		expect(csp).toContain("style-src-elem 'self' 'nonce-abc123';");
+		expect(csp).toContain("style-src-attr 'unsafe-inline'");
+	});
+
+	test("emits style hashes next to the nonce", () => {
+		const csp = buildCspHeader([{ hashes: { styles: [HASH] } }], "abc123", false, { styles: "strict" });
+
+		expect(csp).toContain(`style-src 'self' 'nonce-abc123' ${HASH};`);
+		expect(csp).toContain(`style-src-elem 'self' 'nonce-abc123' ${HASH};`);
+	});
+
+	test("pragmatic mode is unchanged", () => {
+		expect(buildCspHeader([], "abc123", false, { styles: "pragmatic" })).toBe(buildCspHeader([], "abc123", false));
+	});
+
+	test("templates render the nonce into style directives", () => {
+		const template = compileCspTemplate([], false, false, { styles: "strict" });
+
+		expect(template.render("xyz789")).toContain("style-src-elem 'self' 'nonce-xyz789'");
+	});
+});
+
+describe("compileCspTemplate", () => {
+	const makeRules = (count: number): CspRule[] =>
+		Array.from({ length: count }, (_, i) => ({
+			description: `rule-${i}`,
+			"connect-src": `https://api${i}.example.com`,
+			"img-src": [`https://img${i}.example.com`],
+		}));
+
+	test("renders the same header as buildCspHeader", () => {
+		const rules = makeRules(3);
+		const template = compileCspTemplate(rules, false);
+
+		expect(template.render("abc123")).toBe(buildCspHeader(rules, "abc123", false));
+		expect(template.render("xyz789")).toBe(buildCspHeader(rules, "xyz789", false));
+	});
+
+	test("renders dev mode policies", () => {
+		const template = compileCspTemplate([], true);
+
+		expect(template.render("abc123")).toBe(buildCspHeader([], "abc123", true));
+	});
+
+	test("report-only templates drop frame-ancestors", () => {
+		const template = compileCspTemplate([], false, true);
+
+		expect(template.render("abc123")).toContain("'nonce-abc123'");
+		expect(template.render("abc123")).not.toContain("frame-ancestors");
+	});
+
+	test("rendering does no per-request merge work, however many rules there are", () => {
+		let reads = 0;
+		const counted: CspRule = {
+			description: "counted",
+			get "connect-src"() {
+				reads++;
+				return "https://api.example.com";
+			},
+		};
+		const template = compileCspTemplate([...makeRules(1000), counted], false);
+		const readsAtCompile = reads;
+
+		for (let i = 0; i < 100; i++) {
+			expect(template.render(`nonce${i}`)).toContain(`'nonce-nonce${i}'`);
+		}
+
+		// Rules are read while compiling and never again when rendering a nonce
+		expect(readsAtCompile).toBeGreaterThan(0);
+		expect(reads).toBe(readsAtCompile);
+	});
+});
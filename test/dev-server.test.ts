@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { buildCspHeader, devServerFromVite, generateSecurityHeaders, startSecureDevServer } from "../src";
+
+const connectSrc = (csp: string) => csp.match(/connect-src ([^;]+)/)?.[1];
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+});
+
+describe("devServer option", () => {
+	test("defaults to any localhost port", () => {
+		expect(connectSrc(buildCspHeader([], "nonce", true))).toBe("'self' ws://localhost:* wss://localhost:*");
+	});
+
+	test("uses the configured HMR host, port, and protocol", () => {
+		const csp = buildCspHeader([], "nonce", true, {
+			devServer: { hmr: { host: ["127.0.0.1", "app.docker"], port: 3000, clientPort: 24678, protocol: "ws" } },
+		});
+
+		expect(connectSrc(csp)).toBe("'self' ws://127.0.0.1:24678 ws://app.docker:24678");
+	});
+
+	test("adds extra dev-only origins, and nothing for HMR when it is off", () => {
+		const headers = generateSecurityHeaders([], {
+			isDev: true,
+			devServer: { hmr: false, origins: ["http://localhost:4000"] },
+		});
+
+		expect(connectSrc(headers["Content-Security-Policy"])).toBe("'self' http://localhost:4000");
+	});
+
+	test("is ignored outside development", () => {
+		const headers = generateSecurityHeaders([], { env: "staging", devServer: { origins: ["http://localhost:4000"] } });
+
+		expect(connectSrc(headers["Content-Security-Policy"])).toBe("'self'");
+	});
+
+	test("detects GitHub Codespaces and Gitpod forwarded hosts", () => {
+		vi.stubEnv("CODESPACE_NAME", "fuzzy-space");
+		vi.stubEnv("GITHUB_CODESPACES_PORT_FORWARDING_DOMAIN", "app.github.dev");
+		vi.stubEnv("GITPOD_WORKSPACE_URL", "https://org-repo-abc.ws-eu114.gitpod.io");
+
+		const csp = buildCspHeader([], "nonce", true, { devServer: { hmr: { port: 3000 } } });
+		expect(csp).toContain("wss://fuzzy-space-3000.app.github.dev https://fuzzy-space-3000.app.github.dev");
+		expect(csp).toContain("wss://3000-org-repo-abc.ws-eu114.gitpod.io");
+
+		// Without a port, the shared forwarding domains (other users' workspaces) are not allowed
+		expect(buildCspHeader([], "nonce", true)).not.toContain("github.dev");
+		expect(buildCspHeader([], "nonce", true)).not.toContain("gitpod.io");
+		expect(buildCspHeader([], "nonce", true, { devServer: { remote: false } })).not.toContain("github.dev");
+	});
+});
+
+describe("devServerFromVite", () => {
+	test("mirrors how the Vite client connects", () => {
+		expect(devServerFromVite({ port: 3000 })).toEqual({ hmr: { host: ["localhost", "127.0.0.1"], port: 3000 } });
+		expect(devServerFromVite({ host: "0.0.0.0", port: 3000, https: {} })).toEqual({
+			hmr: { host: ["localhost", "127.0.0.1"], port: 3000, protocol: "wss" },
+		});
+		expect(
+			devServerFromVite(
+				{ host: "dev.local", port: 3000, hmr: { clientPort: 443, protocol: "wss" } },
+				{ origins: ["https://devtools.example.com"] },
+			),
+		).toEqual({
+			origins: ["https://devtools.example.com"],
+			hmr: { host: "dev.local", port: 3000, clientPort: 443, protocol: "wss" },
+		});
+		expect(devServerFromVite({ hmr: false })).toEqual({ hmr: false });
+	});
+
+	test("the Vite plugin hands the settings to the policy", () => {
+		vi.stubEnv("START_SECURE_DEV_SERVER", "");
+		const plugin = startSecureDevServer({ origins: ["http://localhost:4000"] });
+
+		plugin.configResolved({ server: { port: 5173, hmr: { host: "app.docker" } } });
+
+		expect(plugin.apply).toBe("serve");
+		expect(connectSrc(buildCspHeader([], "nonce", true))).toBe(
+			"'self' ws://app.docker:5173 wss://app.docker:5173 http://localhost:4000",
+		);
+	});
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test, vi } from "vitest";
+
+import { type CspRule, createCspMiddleware, evaluatePolicy, explainPolicy, generateSecurityHeaders } from "../src";
+import { runMiddleware } from "./helpers/middleware";
+
+const toolbar: CspRule = {
+	description: "vercel-toolbar",
+	env: ["preview", "staging"],
+	"script-src": "https://vercel.live",
+	"frame-src": "https://vercel.live",
+};
+
+describe("environment profiles", () => {
+	test("staging keeps production scripts with relaxed HSTS", () => {
+		const headers = generateSecurityHeaders([], { env: "staging" });
+
+		expect(headers["Content-Security-Policy"]).not.toContain("'unsafe-eval'");
+		expect(headers["Content-Security-Policy"]).not.toContain("ws://localhost:*");
+		expect(headers["Strict-Transport-Security"]).toBe("max-age=86400");
+	});
+
+	test("development and test relax scripts and drop HSTS", () => {
+		for (const env of ["development", "test"] as const) {
+			const headers = generateSecurityHeaders([], { env });
+
+			expect(headers["Content-Security-Policy"]).toContain("'unsafe-eval'");
+			expect(headers["Strict-Transport-Security"]).toBeUndefined();
+		}
+	});
+
+	test("production keeps the default HSTS", () => {
+		const headers = generateSecurityHeaders([], { env: "production" });
+
+		expect(headers["Strict-Transport-Security"]).toBe("max-age=31536000; includeSubDomains; preload");
+	});
+
+	test("env takes precedence over isDev, and explicit hsts over the profile", () => {
+		const headers = generateSecurityHeaders([], { env: "staging", isDev: true, hsts: { maxAge: 600 } });
+
+		expect(headers["Content-Security-Policy"]).not.toContain("'unsafe-eval'");
+		expect(headers["Strict-Transport-Security"]).toBe("max-age=600");
+	});
+
+	test("profiles can be overridden", () => {
+		const headers = generateSecurityHeaders([], {
+			env: "preview",
+			profiles: { preview: { devTools: true, hsts: false } },
+		});
+
+		expect(headers["Content-Security-Policy"]).toContain("'unsafe-eval'");
+		expect(headers["Strict-Transport-Security"]).toBeUndefined();
+	});
+
+	test("unknown environments warn and use production", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const headers = generateSecurityHeaders([], { env: "qa" as never });
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown environment "qa"'));
+		expect(headers["Content-Security-Policy"]).not.toContain("'unsafe-eval'");
+		warn.mockRestore();
+	});
+});
+
+describe("environment-scoped rules", () => {
+	test("env limits a rule to the listed environments", () => {
+		expect(generateSecurityHeaders([toolbar], { env: "staging" })["Content-Security-Policy"]).toContain(
+			"frame-src https://vercel.live",
+		);
+		expect(generateSecurityHeaders([toolbar], { env: "production" })["Content-Security-Policy"]).toContain(
+			"frame-src 'none'",
+		);
+	});
+
+	test("when predicates receive the environment", () => {
+		const when = vi.fn(({ isDev }: { isDev: boolean }) => isDev);
+		const rule: CspRule = { description: "debug", "connect-src": "https://debug.example.com", when };
+
+		expect(generateSecurityHeaders([rule], { env: "test" })["Content-Security-Policy"]).toContain(
+			"https://debug.example.com",
+		);
+		expect(when).toHaveBeenCalledWith({ env: "test", isDev: true });
+		expect(generateSecurityHeaders([rule], { env: "staging" })["Content-Security-Policy"]).not.toContain(
+			"https://debug.example.com",
+		);
+	});
+
+	test("isDev without env maps to development and production", () => {
+		const devOnly: CspRule = { env: "development", "img-src": "https://dev.example.com" };
+
+		expect(generateSecurityHeaders([devOnly], { isDev: true })["Content-Security-Policy"]).toContain(
+			"https://dev.example.com",
+		);
+		expect(generateSecurityHeaders([devOnly], { isDev: false })["Content-Security-Policy"]).not.toContain(
+			"https://dev.example.com",
+		);
+	});
+
+	test("analysis APIs filter rules and keep rule indices", () => {
+		const rules: CspRule[] = [toolbar, { description: "api", "connect-src": "https://api.example.com" }];
+		const explanation = explainPolicy(rules, { env: "production" });
+
+		expect(explanation["frame-src"]?.map((source) => source.value)).toEqual(["'none'"]);
+		expect(explanation["connect-src"]?.find((source) => source.value === "https://api.example.com")?.addedBy).toEqual([
+			{ kind: "rule", ruleIndex: 1, description: "api" },
+		]);
+		expect(evaluatePolicy(rules, { env: "development" }).map((finding) => finding.id)).toContain("script-unsafe-eval");
+	});
+
+	test("middleware applies env to global and per-route rules", async () => {
+		const middleware = createCspMiddleware({
+			rules: [toolbar],
+			routes: [{ path: "/admin/*", rules: [{ env: "production", "connect-src": "https://admin.example.com" }] }],
+			options: { env: "staging" },
+		});
+		const { headers } = await runMiddleware(middleware, "https://example.com/admin/users");
+
+		const csp = headers.get("Content-Security-Policy");
+		expect(csp).toContain("frame-src https://vercel.live");
+		expect(csp).not.toContain("https://admin.example.com");
+		expect(headers.get("Strict-Transport-Security")).toBe("max-age=86400");
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "vitest";
+import { evaluatePolicy } from "../src";
+
+const ids = (policy: Parameters<typeof evaluatePolicy>[0], options?: Parameters<typeof evaluatePolicy>[1]) =>
+	evaluatePolicy(policy, options).map((finding) => finding.id);
+
+describe("evaluatePolicy", () => {
+	test("default production policy has no high or medium findings", () => {
+		const findings = evaluatePolicy([], { isDev: false });
+
+		expect(findings.filter((f) => f.severity === "high" || f.severity === "medium")).toEqual([]);
+		expect(findings.map((f) => f.id)).toContain("style-unsafe-inline");
+	});
+
+	test("flags 'unsafe-eval' in development", () => {
+		expect(ids([], { isDev: true })).toContain("script-unsafe-eval");
+	});
+
+	test("flags inline scripts without a nonce", () => {
+		const findings = evaluatePolicy([], { isDev: false, nonce: false });
+
+		expect(findings[0]).toMatchObject({ id: "script-unsafe-inline", severity: "high", directive: "script-src" });
+	});
+
+	test("flags scheme sources and data: in script-src", () => {
+		const findings = evaluatePolicy("script-src 'self' https: data:; object-src 'none'; base-uri 'none'");
+
+		expect(findings).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ id: "script-scheme-source", severity: "high", value: "https:" }),
+				expect.objectContaining({ id: "script-data-uri", severity: "high", value: "data:" }),
+			]),
+		);
+	});
+
+	test("flags wildcard hosts covering a public suffix", () => {
+		const findings = evaluatePolicy("default-src 'self'; img-src https://*.com; script-src https://*.co.uk");
+
+		expect(findings).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ id: "broad-wildcard-host", directive: "img-src", severity: "medium" }),
+				expect.objectContaining({ id: "broad-wildcard-host", directive: "script-src", severity: "high" }),
+			]),
+		);
+	});
+
+	test("flags known JSONP/AngularJS bypass hosts, including via wildcards", () => {
+		const findings = evaluatePolicy("script-src 'self' https://*.googleapis.com https://cdn.jsdelivr.net");
+
+		expect(findings.filter((f) => f.id === "script-bypass-host").map((f) => f.value)).toEqual([
+			"https://*.googleapis.com",
+			"https://cdn.jsdelivr.net",
+		]);
+	});
+
+	test("downgrades allowlist findings when 'strict-dynamic' with a nonce is present", () => {
+		const findings = evaluatePolicy([{ description: "posthog", "script-src": "https://cdn.jsdelivr.net https:" }], {
+			isDev: false,
+		});
+		const allowlist = findings.filter((f) => f.id === "script-bypass-host" || f.id === "script-scheme-source");
+
+		expect(allowlist.length).toBeGreaterThan(0);
+		expect(allowlist.every((f) => f.severity === "low")).toBe(true);
+	});
+
+	test("reports each script issue once across script-src and script-src-elem", () => {
+		const findings = evaluatePolicy([{ "script-src": "https://unpkg.com" }], { isDev: false });
+
+		expect(findings.filter((f) => f.id === "script-bypass-host")).toHaveLength(1);
+	});
+
+	test("flags missing object-src and base-uri", () => {
+		expect(ids("script-src 'nonce-abc'")).toEqual(
+			expect.arrayContaining(["missing-object-src", "missing-base-uri", "missing-default-src"]),
+		);
+		expect(ids("default-src 'self'; base-uri 'self'")).toContain("permissive-object-src");
+	});
+
+	test("flags 'strict-dynamic' without a nonce or hash", () => {
+		expect(ids("default-src 'self'; script-src 'strict-dynamic'")).toContain("strict-dynamic-without-nonce");
+	});
+
+	test("flags plain HTTP sources outside script directives", () => {
+		const findings = evaluatePolicy([{ "img-src": "http://images.example.com" }], { isDev: false });
+
+		expect(findings).toEqual(
+			expect.arrayContaining([expect.objectContaining({ id: "insecure-scheme", value: "http://images.example.com" })]),
+		);
+	});
+
+	test("sorts findings by severity", () => {
+		const severities = evaluatePolicy("script-src * 'unsafe-eval'").map((f) => f.severity);
+		const order = ["high", "medium", "low", "info"];
+
+		expect(severities).toEqual([...severities].sort((a, b) => order.indexOf(a) - order.indexOf(b)));
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "vitest";
+import { type CspRule, explainPolicy } from "../src";
+
+const rules: CspRule[] = [
+	{
+		description: "google-auth",
+		source: "src/config/cspRules.ts",
+		"img-src": "https://*.googleusercontent.com",
+		"connect-src": "https://*.googleusercontent.com",
+	},
+	{
+		description: "posthog-analytics",
+		"script-src": "https://*.posthog.com",
+		"connect-src": ["https://*.posthog.com", "https://*.googleusercontent.com"],
+	},
+	{ description: "https-upgrade", "upgrade-insecure-requests": true },
+	{ description: "pdf-viewer", "script-src-attr": "'unsafe-hashes'" },
+];
+
+const find = (explanation: ReturnType<typeof explainPolicy>, directive: string, value: string) =>
+	explanation[directive]?.find((source) => source.value === value);
+
+describe("explainPolicy", () => {
+	test("attributes rule sources with description and source", () => {
+		const explanation = explainPolicy(rules, { isDev: false });
+
+		expect(find(explanation, "img-src", "https://*.googleusercontent.com")?.addedBy).toEqual([
+			{ kind: "rule", ruleIndex: 0, description: "google-auth", source: "src/config/cspRules.ts" },
+		]);
+	});
+
+	test("lists every rule that added the same source", () => {
+		const explanation = explainPolicy(rules, { isDev: false });
+
+		expect(find(explanation, "connect-src", "https://*.googleusercontent.com")?.addedBy).toEqual([
+			{ kind: "rule", ruleIndex: 0, description: "google-auth", source: "src/config/cspRules.ts" },
+			{ kind: "rule", ruleIndex: 1, description: "posthog-analytics" },
+		]);
+	});
+
+	test("attributes defaults", () => {
+		const explanation = explainPolicy(rules, { isDev: true });
+
+		expect(find(explanation, "default-src", "'self'")?.addedBy).toEqual([{ kind: "default" }]);
+		expect(find(explanation, "connect-src", "ws://localhost:*")?.addedBy).toEqual([{ kind: "default" }]);
+		expect(find(explanation, "script-src", "'nonce-{nonce}'")?.addedBy).toEqual([{ kind: "default" }]);
+	});
+
+	test("marks sources copied into granular directives", () => {
+		const explanation = explainPolicy(rules, { isDev: false });
+
+		expect(find(explanation, "script-src-elem", "https://*.posthog.com")?.addedBy).toEqual([
+			{ kind: "rule", ruleIndex: 1, description: "posthog-analytics", copiedFrom: "script-src" },
+		]);
+	});
+
+	test("marks 'self' added implicitly for new directives", () => {
+		const explanation = explainPolicy(rules, { isDev: false });
+
+		expect(find(explanation, "script-src-attr", "'self'")?.addedBy).toEqual([
+			{ kind: "implicit", ruleIndex: 3, description: "pdf-viewer" },
+		]);
+	});
+
+	test("explains valueless directives", () => {
+		const explanation = explainPolicy(rules, { isDev: false });
+
+		expect(explanation["upgrade-insecure-requests"]).toEqual([
+			{ value: "", addedBy: [{ kind: "rule", ruleIndex: 2, description: "https-upgrade" }] },
+		]);
+	});
+
+	test("covers exactly the directives and sources of the compiled policy", () => {
+		const explanation = explainPolicy(rules, { isDev: false, nonce: false });
+
+		expect(find(explanation, "script-src", "'unsafe-inline'")?.addedBy).toEqual([{ kind: "default" }]);
+		expect(explanation["frame-src"]).toEqual([{ value: "'none'", addedBy: [{ kind: "default" }] }]);
+		for (const sources of Object.values(explanation)) {
+			for (const source of sources) {
+				expect(source.addedBy.length).toBeGreaterThan(0);
+			}
+		}
+	});
+
+	test("attributes 'none' to the rule that locked a directive down", () => {
+		const explanation = explainPolicy(
+			[{ "frame-src": "https://a.example.com" }, { description: "lockdown", "frame-src": "'none'" }],
+			{ isDev: false },
+		);
+
+		expect(explanation["frame-src"]).toEqual([
+			{ value: "'none'", addedBy: [{ kind: "rule", ruleIndex: 1, description: "lockdown" }] },
+		]);
+	});
+});
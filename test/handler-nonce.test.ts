@@ -0,0 +1,108 @@
+import { describe, expect, test, vi } from "vitest";
+import { createSecureHandler, getRequestNonce } from "../src";
+
+describe("createSecureHandler - per-request nonces", () => {
+	test("uses a different nonce for each request", async () => {
+		const wrapped = createSecureHandler({ perRequestNonce: true, options: { isDev: false } })(
+			async () => new Response("OK"),
+		);
+
+		const first = await wrapped(new Request("https://example.com/"));
+		const second = await wrapped(new Request("https://example.com/"));
+		const firstNonce = first.headers.get("x-nonce");
+		const secondNonce = second.headers.get("x-nonce");
+
+		expect(firstNonce).toBeTruthy();
+		expect(secondNonce).toBeTruthy();
+		expect(firstNonce).not.toBe(secondNonce);
+		expect(first.headers.get("Content-Security-Policy")).toContain(`'nonce-${firstNonce}'`);
+		expect(second.headers.get("Content-Security-Policy")).toContain(`'nonce-${secondNonce}'`);
+		expect(first.headers.get("Content-Security-Policy")).not.toContain("'unsafe-inline' 'unsafe-eval'");
+	});
+
+	test("generates per-request nonces by default", async () => {
+		const wrapped = createSecureHandler({ options: { isDev: false } })(async () => new Response("OK"));
+
+		const first = await wrapped(new Request("https://example.com/"));
+		const second = await wrapped(new Request("https://example.com/"));
+
+		expect(first.headers.get("x-nonce")).toBeTruthy();
+		expect(first.headers.get("x-nonce")).not.toBe(second.headers.get("x-nonce"));
+	});
+
+	test("sends policies without a nonce with perRequestNonce: false", async () => {
+		const wrapped = createSecureHandler({ perRequestNonce: false, options: { isDev: false } })(
+			async () => new Response("OK"),
+		);
+		const response = await wrapped(new Request("https://example.com/"));
+
+		expect(response.headers.get("x-nonce")).toBeNull();
+		expect(response.headers.get("Content-Security-Policy")).not.toContain("'nonce-");
+	});
+
+	test("passes the nonce to the handler and getRequestNonce", async () => {
+		let seen: { context?: string | undefined; lookup?: string | undefined } = {};
+		const wrapped = createSecureHandler({ nonceGenerator: () => "Y3VzdG9tLW5vbmNlLXZhbHVl" })(
+			async (request, { nonce }) => {
+				seen = { context: nonce, lookup: getRequestNonce(request) };
+				return new Response("OK");
+			},
+		);
+
+		const response = await wrapped(new Request("https://example.com/"));
+
+		expect(seen).toEqual({ context: "Y3VzdG9tLW5vbmNlLXZhbHVl", lookup: "Y3VzdG9tLW5vbmNlLXZhbHVl" });
+		expect(response.headers.get("x-nonce")).toBe("Y3VzdG9tLW5vbmNlLXZhbHVl");
+		expect(response.headers.get("Content-Security-Policy")).toContain("'nonce-Y3VzdG9tLW5vbmNlLXZhbHVl'");
+	});
+
+	test("passes options.nonce without per-request mode, warning that it is static", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const handler = vi.fn(async () => new Response("OK"));
+		const wrapped = createSecureHandler({ options: { nonce: "c3RhdGljLW5vbmNlLXZhbHVl" } })(handler);
+		await wrapped(new Request("https://example.com/"));
+		await wrapped(new Request("https://example.com/"));
+
+		expect(handler).toHaveBeenCalledWith(expect.any(Request), { nonce: "c3RhdGljLW5vbmNlLXZhbHVl" });
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("options.nonce is reused for every request"));
+		warn.mockRestore();
+	});
+
+	test("does not warn about options.nonce in per-request mode", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		createSecureHandler({ perRequestNonce: true, options: { nonce: "c3RhdGljLW5vbmNlLXZhbHVl" } });
+
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	test("getRequestNonce returns undefined for unknown requests", () => {
+		expect(getRequestNonce(new Request("https://example.com/"))).toBeUndefined();
+	});
+
+	test("injects the per-request nonce into HTML", async () => {
+		const wrapped = createSecureHandler({ perRequestNonce: true, injectNonce: true })(
+			async () => new Response("<script>run()</script>", { headers: { "Content-Type": "text/html" } }),
+		);
+
+		const response = await wrapped(new Request("https://example.com/"));
+		const nonce = response.headers.get("x-nonce");
+
+		expect(await response.text()).toBe(`<script nonce="${nonce}">run()</script>`);
+	});
+
+	test("keeps headers without a nonce unchanged", async () => {
+		const wrapped = createSecureHandler({
+			nonceGenerator: () => "cmVwb3J0LW9ubHktbm9uY2U=",
+			options: { trustedTypes: { reportOnlyInDev: true }, isDev: true },
+		})(async () => new Response("OK"));
+
+		const response = await wrapped(new Request("https://example.com/"));
+
+		expect(response.headers.get("Content-Security-Policy")).toContain("'nonce-cmVwb3J0LW9ubHktbm9uY2U='");
+		expect(response.headers.get("Content-Security-Policy-Report-Only")).toBe(
+			"require-trusted-types-for 'script'; trusted-types default",
+		);
+	});
+});
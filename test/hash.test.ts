@@ -0,0 +1,68 @@
+import { describe, expect, test, vi } from "vitest";
+import { buildCspHeader, explainPolicy, generateSecurityHeaders, hashInlineContent } from "../src";
+
+// Known value from MDN's CSP script-src documentation
+const HELLO_HASH = "'sha256-qznLcsROx4GACP2dm0UCKCzCG+HiZ1guq6ZZDob/Tng='";
+
+describe("hashInlineContent", () => {
+	test("computes sha256 hash sources", async () => {
+		expect(await hashInlineContent("alert('Hello, world.');")).toBe(HELLO_HASH);
+	});
+
+	test("supports sha384 and sha512", async () => {
+		expect(await hashInlineContent("x", "sha384")).toMatch(/^'sha384-[A-Za-z0-9+/]{64}'$/);
+		expect(await hashInlineContent("x", "sha512")).toMatch(/^'sha512-[A-Za-z0-9+/]{86}=='$/);
+	});
+});
+
+describe("hashes in CspRule", () => {
+	test("places script hashes next to the nonce in script-src and script-src-elem", () => {
+		const csp = buildCspHeader([{ description: "theme", hashes: { scripts: [HELLO_HASH] } }], "abc123", false);
+
+		expect(csp).toContain(`script-src 'nonce-abc123' ${HELLO_HASH} 'strict-dynamic'`);
+		expect(csp).toContain(`script-src-elem 'nonce-abc123' ${HELLO_HASH} 'strict-dynamic'`);
+	});
+
+	test("accepts unquoted hashes and deduplicates", () => {
+		const csp = buildCspHeader(
+			[{ hashes: { scripts: [HELLO_HASH.slice(1, -1)] } }, { hashes: { scripts: [HELLO_HASH] } }],
+			"abc123",
+			false,
+		);
+
+		expect(csp.match(/script-src ([^;]+)/)?.[1]).toBe(`'nonce-abc123' ${HELLO_HASH} 'strict-dynamic'`);
+	});
+
+	test("skips style hashes while styles allow 'unsafe-inline'", () => {
+		const csp = buildCspHeader([{ hashes: { styles: [HELLO_HASH] } }], "abc123", false);
+
+		expect(csp).not.toContain(HELLO_HASH);
+		expect(csp).toContain("style-src 'self' 'unsafe-inline'");
+	});
+
+	test("warns when script hashes disable 'unsafe-inline'", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const headers = generateSecurityHeaders([{ hashes: { scripts: [HELLO_HASH] } }], { isDev: false });
+
+		expect(headers["Content-Security-Policy"]).toContain(`script-src 'self' 'unsafe-inline' ${HELLO_HASH}`);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("ignore 'unsafe-inline'"));
+		warn.mockRestore();
+	});
+
+	test("ignores invalid hashes with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const csp = buildCspHeader([{ description: "typo", hashes: { scripts: ["md5-abc"] } }], "abc123", false);
+
+		expect(csp).not.toContain("md5-abc");
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("(Rule: typo)"));
+		warn.mockRestore();
+	});
+
+	test("explains which rule added a hash", () => {
+		const explanation = explainPolicy([{ description: "theme", hashes: { scripts: [HELLO_HASH] } }], { isDev: false });
+
+		expect(explanation["script-src-elem"]?.find((s) => s.value === HELLO_HASH)?.addedBy).toEqual([
+			{ kind: "rule", ruleIndex: 0, description: "theme" },
+		]);
+	});
+});
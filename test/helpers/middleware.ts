@@ -0,0 +1,49 @@
+/**
+ * Middleware test harness
+ * Mocks TanStack Start's response-header functions and runs the middleware the way Start does for one request.
+ * Loaded as a vitest setup file, so the mock is in place before any test imports the middleware.
+ */
+
+import { vi } from "vitest";
+import type { createCspMiddleware } from "../../src";
+
+const responseState = vi.hoisted(() => ({ headers: new Headers() }));
+
+vi.mock("@tanstack/react-start/server", () => ({
+	getResponseHeaders: () => responseState.headers,
+	setResponseHeaders: (headers: Headers) => {
+		responseState.headers = headers;
+	},
+}));
+
+type MiddlewareServerFn = (options: {
+	request: Request;
+	pathname: string;
+	context: Record<string, unknown>;
+	next: (options?: { context?: Record<string, unknown> }) => unknown;
+}) => Promise<{ context: Record<string, unknown>; response: Response }>;
+
+/**
+ * Runs the middleware's server function for a single request, starting from empty response headers
+ * @returns Response headers the middleware set, and the context it passed on
+ */
+export async function runMiddleware(
+	middleware: ReturnType<typeof createCspMiddleware>,
+	url = "https://example.com/",
+	response = new Response("OK"),
+) {
+	const request = new Request(url);
+	const pathname = new URL(url).pathname;
+	// The server function isn't part of the middleware's public type
+	const server = (middleware.options as unknown as { server: MiddlewareServerFn }).server;
+
+	responseState.headers = new Headers();
+	const result = await server({
+		request,
+		pathname,
+		context: {},
+		next: (options) => ({ request, pathname, context: options?.context ?? {}, response }),
+	});
+
+	return { headers: responseState.headers, context: result.context };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, test, vi } from "vitest";
+
+import {
+	buildHstsHeader,
+	createCspMiddleware,
+	createSecureHandler,
+	generateSecurityHeaders,
+	shouldSendHsts,
+} from "../src";
+import { runMiddleware } from "./helpers/middleware";
+
+describe("buildHstsHeader", () => {
+	test("defaults to one year with includeSubDomains and preload", () => {
+		expect(buildHstsHeader()).toBe("max-age=31536000; includeSubDomains; preload");
+	});
+
+	test("builds from structured options (unset flags are off)", () => {
+		expect(buildHstsHeader({ maxAge: 86400 })).toBe("max-age=86400");
+		expect(buildHstsHeader({ maxAge: 63072000, includeSubDomains: true })).toBe("max-age=63072000; includeSubDomains");
+	});
+
+	test("drops preload that doesn't meet hstspreload.org requirements", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(buildHstsHeader({ maxAge: 86400, preload: true })).toBe("max-age=86400");
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining("maxAge of at least 31536000 (got 86400) and includeSubDomains"),
+		);
+		warn.mockRestore();
+	});
+
+	test("replaces an invalid maxAge with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(buildHstsHeader({ maxAge: -1 })).toBe("max-age=31536000");
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Invalid HSTS maxAge -1"));
+		warn.mockRestore();
+	});
+});
+
+describe("shouldSendHsts", () => {
+	test("sends on HTTPS requests to real hostnames", () => {
+		expect(shouldSendHsts(new Request("https://app.example.com/"))).toBe(true);
+	});
+
+	test("keeps sending behind an untrusted proxy, skipping only clearly local requests", () => {
+		// A TLS-terminating proxy often forwards plain HTTP to an internal address
+		expect(shouldSendHsts(new Request("http://app.example.com/"))).toBe(true);
+		expect(shouldSendHsts(new Request("http://10.0.0.5:3000/"))).toBe(true);
+		expect(shouldSendHsts(new Request("https://localhost:3000/"))).toBe(false);
+		expect(shouldSendHsts(new Request("http://app.localhost/"))).toBe(false);
+		expect(shouldSendHsts(new Request("http://127.0.0.1:3000/"))).toBe(false);
+		expect(shouldSendHsts(new Request("https://[::1]:3000/"))).toBe(false);
+	});
+
+	test("ignores forwarded headers unless the proxy is trusted", () => {
+		expect(shouldSendHsts(new Request("https://app.example.com/", { headers: { "x-forwarded-proto": "http" } }))).toBe(
+			true,
+		);
+		expect(
+			shouldSendHsts(new Request("https://app.example.com/", { headers: { "x-forwarded-host": "localhost" } })),
+		).toBe(true);
+	});
+
+	describe("with trustProxy", () => {
+		const trustProxy = { trustProxy: true };
+		const behindProxy = (headers: Record<string, string>) => new Request("http://10.0.0.5:3000/", { headers });
+
+		test("honors forwarded protocol and host", () => {
+			expect(
+				shouldSendHsts(
+					behindProxy({ "x-forwarded-proto": "https", "x-forwarded-host": "app.example.com" }),
+					trustProxy,
+				),
+			).toBe(true);
+			expect(
+				shouldSendHsts(behindProxy({ "x-forwarded-proto": "http", "x-forwarded-host": "app.example.com" }), trustProxy),
+			).toBe(false);
+			expect(shouldSendHsts(behindProxy({ "x-forwarded-proto": "https" }), trustProxy)).toBe(false);
+		});
+
+		test("skips plain HTTP and IP hosts", () => {
+			expect(shouldSendHsts(new Request("http://app.example.com/"), trustProxy)).toBe(false);
+			expect(shouldSendHsts(new Request("https://192.168.1.10/"), trustProxy)).toBe(false);
+			expect(shouldSendHsts(new Request("https://app.example.com/"), trustProxy)).toBe(true);
+		});
+	});
+});
+
+describe("HSTS emission", () => {
+	const hstsFor = async (middleware: ReturnType<typeof createCspMiddleware>, url: string) =>
+		(await runMiddleware(middleware, url)).headers.get("Strict-Transport-Security");
+
+	test("middleware uses structured options and skips local requests", async () => {
+		const middleware = createCspMiddleware({ options: { isDev: false, hsts: { maxAge: 86400 } } });
+
+		expect(await hstsFor(middleware, "https://staging.example.com/")).toBe("max-age=86400");
+		expect(await hstsFor(middleware, "http://staging.example.com/")).toBe("max-age=86400");
+		expect(await hstsFor(middleware, "http://localhost:3000/")).toBeNull();
+	});
+
+	test("hsts: false disables the header", async () => {
+		expect(
+			await hstsFor(createCspMiddleware({ options: { isDev: false, hsts: false } }), "https://example.com/"),
+		).toBeNull();
+		expect(generateSecurityHeaders([], { hsts: false })["Strict-Transport-Security"]).toBeUndefined();
+	});
+
+	test("handler skips HSTS on local requests", async () => {
+		const wrapped = createSecureHandler({ options: { isDev: false } })(async () => new Response("OK"));
+
+		expect((await wrapped(new Request("https://example.com/"))).headers.get("Strict-Transport-Security")).toContain(
+			"max-age=",
+		);
+		expect((await wrapped(new Request("http://localhost/"))).headers.get("Strict-Transport-Security")).toBeNull();
+	});
+});
@@ -1,5 +1,6 @@
-import { describe, expect, test } from "vitest";
-import { createSecureHandler, generateSecurityHeaders } from "../src";
+import { describe, expect, test, vi } from "vitest";
+import { buildCspHeader, createSecureHandler, generateSecurityHeaders } from "../src";
+import type { CspRule } from "../src/internal/types";
 
 describe("generateSecurityHeaders", () => {
 	test("generates default headers", () => {
@@ -103,7 +104,9 @@ describe("generateSecurityHeaders", () => {
 
 		const csp = headers["Content-Security-Policy"];
 		expect(csp).toContain("'nonce-test-nonce-123'");
-		expect(csp).not.toContain("'unsafe-inline'");
+		// Styles stay pragmatic (same defaults as the middleware); scripts must not allow inline
+		expect(csp.match(/script-src ([^;]+)/)?.[1]).not.toContain("'unsafe-inline'");
+		expect(csp.match(/script-src-elem ([^;]+)/)?.[1]).not.toContain("'unsafe-inline'");
 	});
 
 	test("handles empty and whitespace CSP values", () => {
@@ -236,12 +239,15 @@ describe("createSecureHandler", () => {
 		expect(await response.text()).toBe("Test Body");
 	});
 
-	test("works with nonce in options", async () => {
+	test("works with nonce in options (deprecated)", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
 		const mockHandler = async () => new Response("OK");
 		const secureHandler = createSecureHandler({
 			rules: [],
 			options: { nonce: "test-nonce", isDev: false },
 		});
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("options.nonce is reused for every request"));
+		warn.mockRestore();
 
 		const wrappedHandler = secureHandler(mockHandler);
 		const response = await wrappedHandler(new Request("http://localhost"));
@@ -363,3 +369,55 @@ describe("'none' keyword handling", () => {
 		expect(frameSrcValue).not.toContain("'none'");
 	});
 });
+
+describe("shared policy compiler", () => {
+	const rules: CspRule[] = [
+		{ description: "api", "connect-src": "https://api.example.com" },
+		{ description: "youtube", "frame-src": ["https://www.youtube.com"] },
+		{ description: "https-upgrade", "upgrade-insecure-requests": true },
+		{ description: "reporting", "report-uri": "/api/csp-report" },
+	];
+
+	test("buildCspHeader and generateSecurityHeaders produce the same policy", () => {
+		const nonce = "dGVzdC1ub25jZS0xMjM0NTY3ODkwYWJjZGVm";
+
+		expect(buildCspHeader(rules, nonce, false)).toBe(
+			generateSecurityHeaders(rules, { nonce, isDev: false })["Content-Security-Policy"],
+		);
+		expect(buildCspHeader(rules, nonce, true)).toBe(
+			generateSecurityHeaders(rules, { nonce, isDev: true })["Content-Security-Policy"],
+		);
+	});
+
+	test("buildCspHeader supports boolean directives", () => {
+		const csp = buildCspHeader([{ "upgrade-insecure-requests": true }], "abc123", false);
+
+		expect(csp).toMatch(/upgrade-insecure-requests(?:;|$)/);
+	});
+
+	test("buildCspHeader does not add 'self' to special directives", () => {
+		const csp = buildCspHeader(rules, "abc123", false);
+
+		expect(csp).toContain("report-uri /api/csp-report");
+		expect(csp).not.toContain("report-uri 'self'");
+	});
+
+	test("buildCspHeader warns about dangerous values in production", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		buildCspHeader([{ description: "legacy-widget", "script-src": "'unsafe-eval'" }], "abc123", false);
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("legacy-widget"));
+		warn.mockRestore();
+	});
+
+	test("later rule setting 'none' replaces earlier sources", () => {
+		const csp = buildCspHeader(
+			[{ "frame-src": "https://a.example.com" }, { description: "lockdown", "frame-src": "'none'" }],
+			"abc123",
+			false,
+		);
+
+		expect(csp.match(/frame-src ([^;]+)/)?.[1]).toBe("'none'");
+	});
+});
@@ -0,0 +1,348 @@
+import { describe, expect, test, vi } from "vitest";
+
+import { CspBudgetExceededError, type CspRule, CspValidationError, createCspMiddleware } from "../src";
+import { runMiddleware } from "./helpers/middleware";
+
+describe("createCspMiddleware", () => {
+	test("sets an enforced CSP with a per-request nonce", async () => {
+		const middleware = createCspMiddleware({ options: { isDev: false } });
+
+		const first = await runMiddleware(middleware);
+		const firstNonce = first.context.nonce as string;
+		expect(first.headers.get("Content-Security-Policy")).toContain(`'nonce-${firstNonce}'`);
+		expect(first.headers.get("Content-Security-Policy-Report-Only")).toBeNull();
+
+		const second = await runMiddleware(middleware);
+		expect(second.context.nonce).not.toBe(firstNonce);
+	});
+
+	test("sets security headers alongside CSP", async () => {
+		const { headers } = await runMiddleware(createCspMiddleware({ options: { isDev: false } }));
+
+		expect(headers.get("X-Frame-Options")).toBe("DENY");
+		expect(headers.get("X-Content-Type-Options")).toBe("nosniff");
+		expect(headers.get("Strict-Transport-Security")).toContain("max-age=31536000");
+	});
+
+	test("strict styles use the request nonce", async () => {
+		const { headers, context } = await runMiddleware(
+			createCspMiddleware({ options: { isDev: false, styles: "strict" } }),
+		);
+
+		expect(headers.get("Content-Security-Policy")).toContain(`style-src-elem 'self' 'nonce-${context.nonce}'`);
+		expect(headers.get("Content-Security-Policy")).toContain("style-src-attr 'none'");
+	});
+	test("merges rules once at creation, not per request", async () => {
+		let reads = 0;
+		const counted: CspRule = {
+			description: "counted",
+			get "connect-src"() {
+				reads++;
+				return "https://api.example.com";
+			},
+		};
+		const middleware = createCspMiddleware({ rules: [counted], options: { isDev: false } });
+		const readsAtCreation = reads;
+
+		for (let i = 0; i < 3; i++) {
+			const { headers } = await runMiddleware(middleware);
+			expect(headers.get("Content-Security-Policy")).toContain("https://api.example.com");
+		}
+
+		expect(readsAtCreation).toBeGreaterThan(0);
+		expect(reads).toBe(readsAtCreation);
+	});
+});
+
+describe("createCspMiddleware - report-only and dual mode", () => {
+	test("report-only mode emits only the report-only header", async () => {
+		const middleware = createCspMiddleware({
+			mode: "report-only",
+			options: { isDev: false },
+		});
+
+		const { headers, context } = await runMiddleware(middleware);
+		const reportOnly = headers.get("Content-Security-Policy-Report-Only");
+
+		expect(headers.get("Content-Security-Policy")).toBeNull();
+		expect(reportOnly).toContain(`'nonce-${context.nonce}'`);
+	});
+
+	test("report-only policy drops directives browsers ignore in report-only", async () => {
+		const { headers } = await runMiddleware(createCspMiddleware({ mode: "report-only", options: { isDev: false } }));
+
+		expect(headers.get("Content-Security-Policy-Report-Only")).not.toContain("frame-ancestors");
+	});
+
+	test("dual mode emits both policies with the same nonce and separate rules", async () => {
+		const middleware = createCspMiddleware({
+			mode: "dual",
+			rules: [{ description: "current", "connect-src": "https://api.example.com https://legacy.example.com" }],
+			reportOnlyRules: [{ description: "candidate", "connect-src": "https://api.example.com" }],
+			options: { isDev: false },
+		});
+
+		const { headers, context } = await runMiddleware(middleware);
+		const enforced = headers.get("Content-Security-Policy");
+		const reportOnly = headers.get("Content-Security-Policy-Report-Only");
+
+		expect(enforced).toContain(`'nonce-${context.nonce}'`);
+		expect(reportOnly).toContain(`'nonce-${context.nonce}'`);
+		expect(enforced).toContain("https://legacy.example.com");
+		expect(reportOnly).toContain("https://api.example.com");
+		expect(reportOnly).not.toContain("https://legacy.example.com");
+		expect(enforced).toContain("frame-ancestors 'none'");
+	});
+});
+
+describe("createCspMiddleware - per-route policies", () => {
+	const stripe = { description: "stripe", "script-src": "https://js.stripe.com", "frame-src": "https://js.stripe.com" };
+
+	test("adds route rules only on matching paths", async () => {
+		const middleware = createCspMiddleware({
+			routes: [{ path: "/checkout/*", rules: [stripe] }],
+			options: { isDev: false },
+		});
+
+		const checkout = await runMiddleware(middleware, "https://example.com/checkout/pay/confirm");
+		expect(checkout.headers.get("Content-Security-Policy")).toContain("frame-src https://js.stripe.com");
+
+		const home = await runMiddleware(middleware, "https://example.com/");
+		expect(home.headers.get("Content-Security-Policy")).not.toContain("https://js.stripe.com");
+	});
+
+	test("supports exact paths, RegExp, and predicates", async () => {
+		const middleware = createCspMiddleware({
+			routes: [
+				{ path: "/exact", rules: [{ "img-src": "https://exact.example.com" }] },
+				{ path: /^\/re\//, rules: [{ "img-src": "https://regex.example.com" }] },
+				{ path: (pathname) => pathname.endsWith(".embed"), rules: [{ "img-src": "https://fn.example.com" }] },
+			],
+			options: { isDev: false },
+		});
+
+		expect(
+			(await runMiddleware(middleware, "https://example.com/exact")).headers.get("Content-Security-Policy"),
+		).toContain("https://exact.example.com");
+		expect(
+			(await runMiddleware(middleware, "https://example.com/exact/more")).headers.get("Content-Security-Policy"),
+		).not.toContain("https://exact.example.com");
+		expect(
+			(await runMiddleware(middleware, "https://example.com/re/x")).headers.get("Content-Security-Policy"),
+		).toContain("https://regex.example.com");
+		expect(
+			(await runMiddleware(middleware, "https://example.com/a/b.embed")).headers.get("Content-Security-Policy"),
+		).toContain("https://fn.example.com");
+	});
+
+	test("replace drops global rules but keeps defaults", async () => {
+		const middleware = createCspMiddleware({
+			rules: [{ description: "analytics", "connect-src": "https://analytics.example.com" }],
+			routes: [{ path: "/admin/*", replace: true, rules: [{ "connect-src": "https://admin-api.example.com" }] }],
+			options: { isDev: false },
+		});
+
+		const { headers } = await runMiddleware(middleware, "https://example.com/admin/users");
+		const csp = headers.get("Content-Security-Policy");
+
+		expect(csp).toContain("https://admin-api.example.com");
+		expect(csp).not.toContain("https://analytics.example.com");
+		expect(csp).toContain("default-src 'self'");
+	});
+
+	test("replace keeps Trusted Types enforced in both policies", async () => {
+		const middleware = createCspMiddleware({
+			mode: "dual",
+			routes: [{ path: "/admin/*", replace: true, rules: [{ "connect-src": "https://admin-api.example.com" }] }],
+			options: { isDev: false, trustedTypes: { policies: ["default"] } },
+		});
+
+		const { headers } = await runMiddleware(middleware, "https://example.com/admin/users");
+
+		for (const name of ["Content-Security-Policy", "Content-Security-Policy-Report-Only"]) {
+			expect(headers.get(name)).toContain("require-trusted-types-for 'script'");
+			expect(headers.get(name)).toContain("trusted-types default");
+		}
+	});
+
+	test("replace keeps report-to unless the route sets its own", async () => {
+		const middleware = createCspMiddleware({
+			routes: [
+				{ path: "/admin/*", replace: true, rules: [{ "connect-src": "https://admin-api.example.com" }] },
+				{ path: "/partner/*", replace: true, rules: [{ "report-to": "partner-endpoint" }] },
+			],
+			options: { isDev: false, reporting: { endpoints: { "csp-endpoint": "https://example.com/api/csp-report" } } },
+		});
+
+		const admin = await runMiddleware(middleware, "https://example.com/admin/users");
+		expect(admin.headers.get("Content-Security-Policy")).toContain("report-to csp-endpoint");
+
+		const partner = await runMiddleware(middleware, "https://example.com/partner/home");
+		expect(partner.headers.get("Content-Security-Policy")).toContain("report-to partner-endpoint");
+		expect(partner.headers.get("Content-Security-Policy")).not.toContain("csp-endpoint");
+	});
+
+	test("route that sets frame-ancestors omits X-Frame-Options", async () => {
+		const middleware = createCspMiddleware({
+			routes: [{ path: "/admin/embed/*", rules: [{ "frame-ancestors": "https://partner.example.com" }] }],
+			options: { isDev: false },
+		});
+
+		const embed = await runMiddleware(middleware, "https://example.com/admin/embed/widget");
+		expect(embed.headers.get("Content-Security-Policy")).toContain("frame-ancestors https://partner.example.com");
+		expect(embed.headers.get("X-Frame-Options")).toBeNull();
+
+		const other = await runMiddleware(middleware, "https://example.com/admin");
+		expect(other.headers.get("X-Frame-Options")).toBe("DENY");
+	});
+});
+
+describe("createCspMiddleware - startup evaluation", () => {
+	test("passes findings for the global policy to a callback", () => {
+		const received: string[] = [];
+		createCspMiddleware({
+			rules: [{ description: "cdn", "img-src": "http://images.example.com" }],
+			options: { isDev: false },
+			evaluate: (findings) => received.push(...findings.map((f) => f.id)),
+		});
+
+		expect(received).toContain("insecure-scheme");
+	});
+
+	test("evaluates the rules of the configured environment", () => {
+		const received: string[] = [];
+		const contexts: unknown[] = [];
+		createCspMiddleware({
+			rules: [
+				{ description: "preview images", env: "staging", "img-src": "http://images.example.com" },
+				{
+					description: "toolbar",
+					when: (context) => {
+						contexts.push(context);
+						return true;
+					},
+				},
+			],
+			options: { env: "staging" },
+			evaluate: (findings) => received.push(...findings.map((f) => f.id)),
+		});
+
+		expect(received).toContain("insecure-scheme");
+		expect(contexts).toEqual([{ env: "staging", isDev: false }]);
+	});
+
+	test("logs high and medium findings when enabled", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		createCspMiddleware({ options: { isDev: true }, evaluate: true });
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("'unsafe-eval'"));
+		warn.mockRestore();
+	});
+});
+
+describe("createCspMiddleware - header budget", () => {
+	const collectors = (prefix: string) =>
+		Array.from({ length: 20 }, (_, i) => `https://${prefix}-${i}.collector.example.com`);
+
+	test("fails at startup when the global or a route policy is over budget", () => {
+		expect(() =>
+			createCspMiddleware({
+				rules: [{ "connect-src": collectors("a") }],
+				options: { isDev: false, headerBudget: 900 },
+			}),
+		).toThrow(CspBudgetExceededError);
+		expect(() =>
+			createCspMiddleware({
+				routes: [{ path: "/tracking/*", rules: [{ "connect-src": collectors("a") }] }],
+				options: { isDev: false, headerBudget: 900 },
+			}),
+		).toThrow(/over the 900-byte budget/);
+	});
+
+	test("fails requests where overlapping routes only exceed the budget together", async () => {
+		const middleware = createCspMiddleware({
+			routes: [
+				{ path: "/shop/*", rules: [{ "connect-src": collectors("a") }] },
+				{ path: "/shop/checkout", rules: [{ "connect-src": collectors("b") }] },
+			],
+			options: { isDev: false, headerBudget: 1600 },
+		});
+
+		await expect(runMiddleware(middleware, "https://example.com/shop/cart")).resolves.toBeDefined();
+		await expect(runMiddleware(middleware, "https://example.com/shop/checkout")).rejects.toThrow(
+			CspBudgetExceededError,
+		);
+		// Not cached: every such request fails instead of falling back to a different policy
+		await expect(runMiddleware(middleware, "https://example.com/shop/checkout")).rejects.toThrow(
+			/over the 1600-byte budget/,
+		);
+	});
+});
+
+describe("createCspMiddleware - strict mode", () => {
+	test("fails at startup on invalid global or route rules", () => {
+		expect(() => createCspMiddleware({ rules: [{ "img-src": "self" }], options: { strict: true } })).toThrow(
+			CspValidationError,
+		);
+		expect(() =>
+			createCspMiddleware({
+				routes: [{ path: "/checkout/*", rules: [{ "script-src": "https//js.stripe.com" }] }],
+				options: { strict: true },
+			}),
+		).toThrow(/Did you mean "https:\/\/js.stripe.com"/);
+	});
+});
+
+describe("createCspMiddleware - response kinds", () => {
+	const json = () => Response.json({ ok: true });
+
+	test("API responses get a minimal policy and CORP", async () => {
+		const middleware = createCspMiddleware({
+			options: { isDev: false, responseKinds: true },
+			additionalHeaders: { "X-Custom": "1" },
+		});
+
+		const { headers } = await runMiddleware(middleware, "https://example.com/_serverFn/abc", json());
+
+		expect(headers.get("Content-Security-Policy")).toBe("default-src 'none'; frame-ancestors 'none'");
+		expect(headers.get("Cross-Origin-Resource-Policy")).toBe("same-origin");
+		expect(headers.get("X-Content-Type-Options")).toBe("nosniff");
+		expect(headers.get("Strict-Transport-Security")).toContain("max-age=31536000");
+		expect(headers.get("X-Custom")).toBe("1");
+		expect(headers.get("X-Frame-Options")).toBeNull();
+		expect(headers.get("Permissions-Policy")).toBeNull();
+	});
+
+	test("assets get only nosniff (and HSTS)", async () => {
+		const middleware = createCspMiddleware({ options: { isDev: false, responseKinds: true } });
+		const image = new Response("", { headers: { "Content-Type": "image/png" } });
+
+		const { headers } = await runMiddleware(middleware, "https://example.com/logo.png", image);
+
+		expect(headers.get("Content-Security-Policy")).toBeNull();
+		expect(headers.get("Cross-Origin-Resource-Policy")).toBeNull();
+		expect(headers.get("X-Content-Type-Options")).toBe("nosniff");
+		expect(headers.get("Strict-Transport-Security")).toContain("max-age=31536000");
+	});
+
+	test("documents keep the full set", async () => {
+		const middleware = createCspMiddleware({ options: { isDev: false, responseKinds: true } });
+		const html = new Response("<html></html>", { headers: { "Content-Type": "text/html; charset=utf-8" } });
+
+		const { headers, context } = await runMiddleware(middleware, "https://example.com/", html);
+
+		expect(headers.get("Content-Security-Policy")).toContain(`'nonce-${context.nonce}'`);
+		expect(headers.get("X-Frame-Options")).toBe("DENY");
+	});
+
+	test("is off by default", async () => {
+		const { headers } = await runMiddleware(
+			createCspMiddleware({ options: { isDev: false } }),
+			"https://example.com/api",
+			json(),
+		);
+
+		expect(headers.get("X-Frame-Options")).toBe("DENY");
+		expect(headers.get("Content-Security-Policy")).toContain("script-src");
+	});
+});
@@ -0,0 +1,147 @@
+import { gzipSync } from "node:zlib";
+import { describe, expect, test, vi } from "vitest";
+import { createNonceInjectionStream, createSecureHandler, type NonceInjectionOptions } from "../src";
+
+const NONCE = "dGVzdC1ub25jZS12YWx1ZS0xMjM0NTY=";
+
+/**
+ * Stream chunks through the injector and collect the output
+ */
+async function inject(chunks: string[], options?: NonceInjectionOptions): Promise<string> {
+	const encoder = new TextEncoder();
+	const source = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+			controller.close();
+		},
+	});
+	return new Response(source.pipeThrough(createNonceInjectionStream(NONCE, options))).text();
+}
+
+describe("createNonceInjectionStream", () => {
+	test("adds the nonce to script, style, and script preload tags", async () => {
+		const html = await inject([
+			'<html><head><link rel="preload" as="script" href="/a.js"><link rel="stylesheet" href="/a.css">',
+			"<style>body{}</style><script src=/a.js></script><script>run()</script></head></html>",
+		]);
+
+		expect(html).toBe(
+			`<html><head><link nonce="${NONCE}" rel="preload" as="script" href="/a.js"><link rel="stylesheet" href="/a.css">` +
+				`<style nonce="${NONCE}">body{}</style><script nonce="${NONCE}" src=/a.js></script><script nonce="${NONCE}">run()</script></head></html>`,
+		);
+	});
+
+	test("keeps existing nonces", async () => {
+		expect(await inject(['<script nonce="other">x()</script>'])).toBe('<script nonce="other">x()</script>');
+	});
+
+	test("handles tags split across chunks", async () => {
+		const html = await inject([
+			"<p>a</p><scr",
+			'ipt type="module" data-x="a>b',
+			'">x()</scr',
+			"ipt><",
+			"style>s{}</style>",
+		]);
+
+		expect(html).toBe(
+			`<p>a</p><script nonce="${NONCE}" type="module" data-x="a>b">x()</script><style nonce="${NONCE}">s{}</style>`,
+		);
+	});
+
+	test("leaves script contents and comments untouched", async () => {
+		const html = await inject(['<script>document.write("<script>")</script><!-- <script> -->']);
+
+		expect(html).toBe(`<script nonce="${NONCE}">document.write("<script>")</script><!-- <script> -->`);
+	});
+
+	test("emits the csp-nonce meta tag after <head>", async () => {
+		const html = await inject(["<!doctype html><html><head lang=en><title>x</title></head></html>"], { meta: true });
+
+		expect(html).toBe(
+			`<!doctype html><html><head lang=en><meta property="csp-nonce" nonce="${NONCE}"><title>x</title></head></html>`,
+		);
+	});
+
+	test("only rewrites the head by default", async () => {
+		const page =
+			"<html><head><script>a()</script></head><body><p>comment</p><script>evil()</script><style>x{}</style></body></html>";
+
+		expect(await inject([page])).toBe(
+			`<html><head><script nonce="${NONCE}">a()</script></head><body><p>comment</p><script>evil()</script><style>x{}</style></body></html>`,
+		);
+		expect(await inject(["<head><style>a{}</style><body><script>b()</script>"])).toBe(
+			`<head><style nonce="${NONCE}">a{}</style><body><script>b()</script>`,
+		);
+	});
+
+	test("rewrites the whole document with scope: document", async () => {
+		const html = await inject(["<head></head><body><script>a()</script></body>"], { scope: "document" });
+
+		expect(html).toBe(`<head></head><body><script nonce="${NONCE}">a()</script></body>`);
+	});
+
+	test("streams output before the body ends", async () => {
+		const encoder = new TextEncoder();
+		let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+		const source = new ReadableStream<Uint8Array>({
+			start(c) {
+				controller = c;
+			},
+		});
+		const reader = source.pipeThrough(createNonceInjectionStream(NONCE)).getReader();
+
+		controller?.enqueue(encoder.encode("<script>a()</script><p>"));
+		const first = await reader.read();
+		expect(new TextDecoder().decode(first.value)).toBe(`<script nonce="${NONCE}">a()</script><p>`);
+		controller?.close();
+		reader.releaseLock();
+	});
+});
+
+describe("createSecureHandler - injectNonce", () => {
+	test("rewrites HTML responses and drops Content-Length", async () => {
+		const wrapped = createSecureHandler({ nonceGenerator: () => NONCE, options: { isDev: false }, injectNonce: true })(
+			async () =>
+				new Response("<script>x()</script>", { headers: { "Content-Type": "text/html", "Content-Length": "20" } }),
+		);
+		const response = await wrapped(new Request("https://example.com/"));
+
+		expect(await response.text()).toBe(`<script nonce="${NONCE}">x()</script>`);
+		expect(response.headers.get("Content-Length")).toBeNull();
+	});
+
+	test("leaves non-HTML responses alone", async () => {
+		const wrapped = createSecureHandler({ nonceGenerator: () => NONCE, options: { isDev: false }, injectNonce: true })(
+			async () => new Response("<script>", { headers: { "Content-Type": "application/json" } }),
+		);
+
+		expect(await (await wrapped(new Request("https://example.com/"))).text()).toBe("<script>");
+	});
+
+	test("leaves compressed HTML responses alone", async () => {
+		const compressed = gzipSync("<script>x()</script>");
+		const wrapped = createSecureHandler({ nonceGenerator: () => NONCE, options: { isDev: false }, injectNonce: true })(
+			async () =>
+				new Response(compressed, {
+					headers: {
+						"Content-Type": "text/html",
+						"Content-Encoding": "gzip",
+						"Content-Length": String(compressed.length),
+					},
+				}),
+		);
+		const response = await wrapped(new Request("https://example.com/"));
+
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array(compressed));
+		expect(response.headers.get("Content-Length")).toBe(String(compressed.length));
+	});
+
+	test("warns when there is no nonce to inject", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		createSecureHandler({ perRequestNonce: false, injectNonce: true });
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("injectNonce has no effect"));
+		warn.mockRestore();
+	});
+});
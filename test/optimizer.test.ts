@@ -0,0 +1,163 @@
+import { describe, expect, test, vi } from "vitest";
+import {
+	buildCspHeader,
+	CspBudgetExceededError,
+	explainPolicy,
+	generateSecurityHeaders,
+	optimizeCspDirectives,
+} from "../src";
+
+const NONCE = "rAnd0mN0nc3Value1234567890abcdef";
+
+describe("optimizeCspDirectives", () => {
+	test("drops sources covered by a broader source in the same directive", () => {
+		const { directives, removed } = optimizeCspDirectives({
+			"img-src": ["https://*.example.com", "https://img.example.com", "https://cdn.other.com/a.png", "https:"],
+			"connect-src": ["*", "wss://socket.example.com", "data:"],
+			"font-src": ["https://fonts.example.com/", "https://fonts.example.com/woff/a.woff2", "http://fonts.example.com"],
+		});
+
+		expect(directives["img-src"]).toEqual(["https:"]);
+		expect(directives["connect-src"]).toEqual(["*", "data:"]);
+		expect(directives["font-src"]).toEqual(["https://fonts.example.com/", "http://fonts.example.com"]);
+		expect(removed).toContainEqual({
+			directive: "img-src",
+			source: "https://*.example.com",
+			reason: "covered",
+			by: "https:",
+		});
+	});
+
+	test("keeps sources that differ in port or only look similar", () => {
+		const sources = ["https://*.example.com", "https://example.com", "https://api.example.com:8443", "example.com"];
+
+		expect(optimizeCspDirectives({ "connect-src": sources }).directives["connect-src"]).toEqual(sources);
+	});
+
+	test("keeps one of two equivalent sources", () => {
+		const { directives } = optimizeCspDirectives({ "img-src": ["https://CDN.example.com", "https://cdn.example.com"] });
+
+		expect(directives["img-src"]).toEqual(["https://cdn.example.com"]);
+	});
+
+	test("drops host, scheme, and 'self' sources made inert by 'strict-dynamic'", () => {
+		const { directives, removed } = optimizeCspDirectives({
+			"script-src": [`'nonce-${NONCE}'`, "'strict-dynamic'", "'self'", "https:", "https://cdn.example.com"],
+			"worker-src": ["'self'", "https://cdn.example.com"],
+		});
+
+		expect(directives["script-src"]).toEqual([`'nonce-${NONCE}'`, "'strict-dynamic'"]);
+		expect(directives["worker-src"]).toEqual(["'self'", "https://cdn.example.com"]);
+		expect(removed.filter((entry) => entry.reason === "strict-dynamic")).toHaveLength(3);
+	});
+
+	test("drops directives identical to their fallback", () => {
+		const { directives, removed } = optimizeCspDirectives({
+			"default-src": ["'self'"],
+			"child-src": ["'none'"],
+			"frame-src": ["'none'"],
+			"img-src": ["'self'"],
+			"worker-src": ["'self'"],
+			"form-action": ["'self'"],
+			"upgrade-insecure-requests": [],
+		});
+
+		expect(Object.keys(directives)).toEqual([
+			"default-src",
+			"child-src",
+			"worker-src",
+			"form-action",
+			"upgrade-insecure-requests",
+		]);
+		expect(removed).toContainEqual({ directive: "frame-src", reason: "inherited", by: "child-src" });
+	});
+
+	test("keeps a directive that another directive's fallback depends on", () => {
+		const { directives } = optimizeCspDirectives({
+			"default-src": ["'self'"],
+			"child-src": ["'self'"],
+			"script-src": [`'nonce-${NONCE}'`, "'strict-dynamic'"],
+		});
+
+		// Without child-src, worker-src would fall back to script-src and block same-origin workers
+		expect(directives["child-src"]).toEqual(["'self'"]);
+	});
+});
+
+describe("optimize option", () => {
+	test("shrinks the generated policy without changing what it allows", () => {
+		const rules = [
+			{ description: "cdn", "script-src": "https://cdn.example.com", "img-src": "https://cdn.example.com" },
+		];
+		const plain = generateSecurityHeaders(rules, { isDev: false, nonce: NONCE })["Content-Security-Policy"];
+		const optimized = generateSecurityHeaders(rules, { isDev: false, nonce: NONCE, optimize: true })[
+			"Content-Security-Policy"
+		];
+
+		expect(optimized.length).toBeLessThan(plain.length);
+		expect(optimized).toContain(`script-src 'nonce-${NONCE}' 'strict-dynamic';`);
+		expect(optimized).not.toContain("script-src-elem");
+		expect(optimized).not.toContain("connect-src");
+		expect(optimized).toContain("img-src 'self' blob: data: https://cdn.example.com");
+	});
+
+	test("analysis sees the optimized policy", () => {
+		expect(explainPolicy([], { isDev: false, optimize: true })["connect-src"]).toBeUndefined();
+		expect(explainPolicy([], { isDev: false })["connect-src"]).toBeDefined();
+	});
+});
+
+describe("headerBudget option", () => {
+	const bigRule = {
+		description: "analytics",
+		"connect-src": Array.from({ length: 40 }, (_, i) => `https://collector-${i}.analytics.example.com`),
+	};
+
+	test("throws with a report of the largest directives and rules", () => {
+		let error: unknown;
+		try {
+			buildCspHeader([bigRule, { description: "fonts", "font-src": "https://fonts.example.com" }], NONCE, false, {
+				headerBudget: 1000,
+			});
+		} catch (caught) {
+			error = caught;
+		}
+
+		expect(error).toBeInstanceOf(CspBudgetExceededError);
+		const budgetError = error as CspBudgetExceededError;
+		expect(budgetError.budget).toBe(1000);
+		expect(budgetError.bytes).toBeGreaterThan(1000);
+		expect(budgetError.directives[0]?.name).toBe("connect-src");
+		expect(budgetError.rules[0]).toEqual({ name: "analytics", bytes: expect.any(Number) });
+		expect(budgetError.message).toContain("over the 1000-byte budget");
+		expect(budgetError.message).toContain("\n  analytics: ");
+	});
+
+	test("passes under budget, and optimization can bring a policy under it", () => {
+		const wildcard = { description: "analytics", "connect-src": "https://*.analytics.example.com" };
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(() => generateSecurityHeaders([bigRule], { isDev: false, headerBudget: 3000 })).not.toThrow();
+		expect(() => generateSecurityHeaders([bigRule, wildcard], { isDev: false, headerBudget: 1000 })).toThrow(
+			CspBudgetExceededError,
+		);
+		expect(() =>
+			generateSecurityHeaders([bigRule, wildcard], { isDev: false, headerBudget: 1000, optimize: true }),
+		).not.toThrow();
+		expect(warn).not.toHaveBeenCalledWith(expect.stringContaining("Large CSP header"));
+		warn.mockRestore();
+	});
+
+	test("counts UTF-8 bytes rather than characters", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const rules = [{ "img-src": `https://cdn.example.com/${"é".repeat(200)}/` }];
+		const header = buildCspHeader(rules, NONCE, false);
+		const bytes = new TextEncoder().encode(header).length;
+
+		expect(() => buildCspHeader(rules, NONCE, false, { headerBudget: header.length })).toThrow(
+			expect.objectContaining({ bytes }),
+		);
+		expect(() => buildCspHeader(rules, NONCE, false, { headerBudget: bytes })).not.toThrow();
+		warn.mockRestore();
+	});
+});
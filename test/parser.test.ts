@@ -0,0 +1,88 @@
+import { describe, expect, test } from "vitest";
+import { buildCspHeader, parseCspHeader, parseCspHeaderToRule, serializeCspDirectives } from "../src";
+
+describe("parseCspHeader", () => {
+	test("parses directives and source lists in order", () => {
+		const directives = parseCspHeader("default-src 'self'; img-src 'self' https://cdn.example.com data:");
+
+		expect(directives).toEqual({
+			"default-src": ["'self'"],
+			"img-src": ["'self'", "https://cdn.example.com", "data:"],
+		});
+		expect(Object.keys(directives)).toEqual(["default-src", "img-src"]);
+	});
+
+	test("parses boolean directives as empty lists", () => {
+		expect(parseCspHeader("upgrade-insecure-requests; default-src 'self'")).toEqual({
+			"upgrade-insecure-requests": [],
+			"default-src": ["'self'"],
+		});
+	});
+
+	test("normalizes case of directive names, keywords, nonce/hash prefixes, and schemes", () => {
+		const directives = parseCspHeader("Script-Src 'SELF' 'Nonce-AbC123' 'SHA256-XyZ=' HTTPS: https://CDN.example.com");
+
+		expect(directives["script-src"]).toEqual([
+			"'self'",
+			"'nonce-AbC123'",
+			"'sha256-XyZ='",
+			"https:",
+			"https://CDN.example.com",
+		]);
+	});
+
+	test("keeps the first of duplicate directives", () => {
+		expect(parseCspHeader("img-src 'self'; img-src *")).toEqual({ "img-src": ["'self'"] });
+	});
+
+	test("tolerates extra whitespace and empty directives", () => {
+		expect(parseCspHeader("  default-src   'self'  ;;  ; object-src 'none' ;")).toEqual({
+			"default-src": ["'self'"],
+			"object-src": ["'none'"],
+		});
+	});
+
+	test("deduplicates values and drops 'none' mixed with other sources", () => {
+		expect(parseCspHeader("frame-src 'none' https://a.example.com https://a.example.com")).toEqual({
+			"frame-src": ["https://a.example.com"],
+		});
+	});
+
+	test("round-trips with buildCspHeader", () => {
+		const header = buildCspHeader(
+			[{ "connect-src": "https://api.example.com", "upgrade-insecure-requests": true }],
+			"abc123",
+			false,
+		);
+
+		expect(serializeCspDirectives(parseCspHeader(header))).toBe(header);
+	});
+});
+
+describe("parseCspHeaderToRule", () => {
+	test("converts a header into a CspRule", () => {
+		const rule = parseCspHeaderToRule(
+			"script-src 'self' https://cdn.example.com; upgrade-insecure-requests; report-uri /csp; sandbox; report-to csp",
+			"legacy-app",
+		);
+
+		expect(rule).toEqual({
+			description: "legacy-app",
+			"script-src": ["'self'", "https://cdn.example.com"],
+			"upgrade-insecure-requests": true,
+			"report-uri": "/csp",
+			sandbox: "",
+			"report-to": "csp",
+		});
+	});
+
+	test("treats an empty source list as 'none'", () => {
+		expect(parseCspHeaderToRule("object-src")).toEqual({ "object-src": "'none'" });
+	});
+
+	test("imported rules rebuild into an equivalent policy", () => {
+		const header = buildCspHeader([{ "img-src": "https://cdn.example.com" }], "abc123", false);
+
+		expect(buildCspHeader([parseCspHeaderToRule(header)], "abc123", false)).toBe(header);
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test, vi } from "vitest";
+
+import {
+	buildCspHeader,
+	buildPermissionsPolicy,
+	type CspRule,
+	createCspMiddleware,
+	defaultSecurityHeadersConfig,
+	generateSecurityHeaders,
+} from "../src";
+import { runMiddleware } from "./helpers/middleware";
+
+const videoCalls: CspRule = {
+	description: "video-calls",
+	permissions: { camera: ["self", "https://meet.example.com"], microphone: ["'self'"] },
+};
+
+describe("buildPermissionsPolicy", () => {
+	test("defaults match the previous hard-coded header", () => {
+		expect(buildPermissionsPolicy([])).toBe(
+			"accelerometer=(), camera=(), geolocation=(), gyroscope=(), magnetometer=(), microphone=(), payment=(), usb=(), interest-cohort=(), browsing-topics=()",
+		);
+		expect(defaultSecurityHeadersConfig["Permissions-Policy"]).toBe(buildPermissionsPolicy([]));
+	});
+
+	test("rules add allowances to individual features", () => {
+		const policy = buildPermissionsPolicy([videoCalls]);
+
+		expect(policy).toContain('camera=(self "https://meet.example.com")');
+		expect(policy).toContain("microphone=(self)");
+		expect(policy).toContain("geolocation=()");
+	});
+
+	test("merges allowlists across rules and supports *", () => {
+		const policy = buildPermissionsPolicy([
+			{ permissions: { fullscreen: ["self"] } },
+			{ permissions: { fullscreen: ["https://player.example.com/"] } },
+			{ permissions: { autoplay: ["*"] } },
+		]);
+
+		expect(policy).toContain('fullscreen=(self "https://player.example.com")');
+		expect(policy).toContain("autoplay=*");
+	});
+
+	test("an empty allowlist disables the feature", () => {
+		const policy = buildPermissionsPolicy([videoCalls, { permissions: { camera: [] } }]);
+
+		expect(policy).toContain("camera=()");
+	});
+
+	test("warns about unknown features and invalid entries", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const policy = buildPermissionsPolicy([
+			{ description: "typo", permissions: { camra: ["self"], geolocation: ["maps.example.com", "self"] } },
+		]);
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown Permissions-Policy feature "camra"'));
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('"maps.example.com"'));
+		expect(policy).toContain("geolocation=(self)");
+		warn.mockRestore();
+	});
+
+	test("permissions do not leak into the CSP", () => {
+		expect(buildCspHeader([videoCalls], "abc123", false)).not.toContain("camera");
+	});
+});
+
+describe("Permissions-Policy from rules", () => {
+	test("generateSecurityHeaders merges rule permissions", () => {
+		const headers = generateSecurityHeaders([videoCalls], { isDev: false });
+
+		expect(headers["Permissions-Policy"]).toContain('camera=(self "https://meet.example.com")');
+	});
+
+	test("headerConfig string still overrides the whole header", () => {
+		const headers = generateSecurityHeaders([videoCalls], {
+			isDev: false,
+			headerConfig: { "Permissions-Policy": "camera=()" },
+		});
+
+		expect(headers["Permissions-Policy"]).toBe("camera=()");
+	});
+
+	test("middleware applies route permissions only on matching paths", async () => {
+		const middleware = createCspMiddleware({
+			routes: [{ path: "/call/*", rules: [videoCalls] }],
+			options: { isDev: false },
+		});
+		const run = async (pathname: string) =>
+			(await runMiddleware(middleware, `https://example.com${pathname}`)).headers.get("Permissions-Policy");
+
+		expect(await run("/call/room-1")).toContain("microphone=(self)");
+		expect(await run("/")).toContain("microphone=()");
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "vitest";
+import { buildCspHeader, cspPresets, cspPresetVersions, evaluatePolicy, explainPolicy } from "../src";
+
+const allPresets = [
+	cspPresets.googleFonts(),
+	cspPresets.googleAnalytics(),
+	cspPresets.googleSignIn(),
+	cspPresets.sentry(),
+	cspPresets.posthog(),
+	cspPresets.stripe(),
+	cspPresets.cloudflareTurnstile(),
+	cspPresets.recaptcha(),
+	cspPresets.youtube(),
+	cspPresets.vimeo(),
+	cspPresets.intercom(),
+];
+
+describe("cspPresets", () => {
+	test("every preset documents itself", () => {
+		for (const rule of allPresets) {
+			expect(rule.description).toBeTruthy();
+			const version = cspPresetVersions[rule.description as keyof typeof cspPresetVersions];
+			expect(version).toBeGreaterThan(0);
+			expect(rule.source).toBe(`@enalmada/start-secure/presets:${rule.description}@${version}`);
+		}
+	});
+
+	test("presets compose without high-severity findings under the nonce policy", () => {
+		const high = evaluatePolicy(allPresets, { isDev: false }).filter((finding) => finding.severity === "high");
+
+		expect(high).toEqual([]);
+	});
+
+	test("explainPolicy attributes origins to the preset", () => {
+		const explanation = explainPolicy([cspPresets.stripe()], { isDev: false });
+		const origin = explanation["frame-src"]?.find((source) => source.value === "https://js.stripe.com");
+
+		expect(origin?.addedBy).toEqual([
+			{ kind: "rule", ruleIndex: 0, description: "stripe", source: "@enalmada/start-secure/presets:stripe@1" },
+		]);
+	});
+
+	test("google fonts allows stylesheets and font files", () => {
+		const csp = buildCspHeader([cspPresets.googleFonts()], "abc123", false);
+
+		expect(csp).toContain("font-src 'self' https://fonts.gstatic.com");
+		expect(csp).toMatch(/style-src-elem [^;]*https:\/\/fonts\.googleapis\.com/);
+	});
+
+	test("sentry supports regions and the loader script", () => {
+		expect(cspPresets.sentry({ region: "de" })["connect-src"]).toBe("https://*.ingest.de.sentry.io");
+		expect(cspPresets.sentry()["script-src"]).toBeUndefined();
+		expect(cspPresets.sentry({ loader: true })["script-src"]).toContain("https://browser.sentry-cdn.com");
+	});
+
+	test("posthog supports regions and reverse-proxy hosts", () => {
+		expect(cspPresets.posthog({ region: "eu" })["connect-src"]).toContain("https://eu.i.posthog.com");
+		expect(cspPresets.posthog({ host: "https://ph.example.com" })).toMatchObject({
+			"script-src": "https://ph.example.com",
+			"connect-src": "https://ph.example.com",
+		});
+	});
+
+	test("youtube uses privacy-enhanced embeds unless disabled", () => {
+		expect(cspPresets.youtube()["frame-src"]).toBe("https://www.youtube-nocookie.com");
+		expect(cspPresets.youtube({ privacyEnhanced: false })["frame-src"]).toBe("https://www.youtube.com");
+	});
+
+	test("recaptcha can include recaptcha.net", () => {
+		expect(cspPresets.recaptcha({ recaptchaNet: true })["frame-src"]).toContain("https://www.recaptcha.net/recaptcha/");
+	});
+});
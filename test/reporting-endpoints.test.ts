@@ -0,0 +1,90 @@
+import { describe, expect, test, vi } from "vitest";
+
+import { buildReportingHeaders, createCspMiddleware, generateSecurityHeaders } from "../src";
+import { runMiddleware } from "./helpers/middleware";
+
+const endpoints = {
+	"csp-endpoint": "https://example.com/api/csp-report",
+	"nel-endpoint": "https://reports.example.com/nel",
+};
+
+describe("buildReportingHeaders", () => {
+	test("declares named endpoints in Reporting-Endpoints", () => {
+		const { headers, rule } = buildReportingHeaders({ endpoints });
+
+		expect(headers).toEqual({
+			"Reporting-Endpoints":
+				'csp-endpoint="https://example.com/api/csp-report", nel-endpoint="https://reports.example.com/nel"',
+		});
+		expect(rule?.["report-to"]).toBe("csp-endpoint");
+	});
+
+	test("uses the named CSP endpoint, or none when disabled", () => {
+		expect(buildReportingHeaders({ endpoints, csp: "nel-endpoint" }).rule?.["report-to"]).toBe("nel-endpoint");
+		expect(buildReportingHeaders({ endpoints, csp: false }).rule).toBeUndefined();
+	});
+
+	test("leaves an explicit report-to rule alone", () => {
+		expect(buildReportingHeaders({ endpoints }, [{ "report-to": "custom" }]).rule).toBeUndefined();
+	});
+
+	test("adds legacy Report-To groups when requested", () => {
+		const { headers } = buildReportingHeaders({
+			endpoints: { "csp-endpoint": "/api/csp-report" },
+			legacyReportTo: true,
+		});
+
+		expect(JSON.parse(`[${headers["Report-To"]}]`)).toEqual([
+			{ group: "csp-endpoint", max_age: 10886400, endpoints: [{ url: "/api/csp-report" }] },
+		]);
+	});
+
+	test("NEL policy implies Report-To", () => {
+		const { headers } = buildReportingHeaders({
+			endpoints,
+			nel: { endpoint: "nel-endpoint", includeSubdomains: true, successFraction: 0.01 },
+		});
+
+		expect(JSON.parse(headers.NEL ?? "")).toEqual({
+			report_to: "nel-endpoint",
+			max_age: 86400,
+			include_subdomains: true,
+			success_fraction: 0.01,
+			failure_fraction: 1,
+		});
+		expect(headers["Report-To"]).toContain('"group":"nel-endpoint"');
+		expect(headers["Report-To"]).toContain('"include_subdomains":true');
+	});
+
+	test("ignores invalid endpoints with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const { headers, rule } = buildReportingHeaders({
+			endpoints: { CSP: "https://example.com/a", plain: "http://example.com/b" },
+		});
+
+		expect(headers).toEqual({});
+		expect(rule).toBeUndefined();
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('"CSP"'));
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("HTTPS"));
+		warn.mockRestore();
+	});
+});
+
+describe("reporting option", () => {
+	test("generateSecurityHeaders wires the endpoint into CSP report-to", () => {
+		const headers = generateSecurityHeaders([], { isDev: false, reporting: { endpoints, nel: {} } });
+
+		expect(headers["Content-Security-Policy"]).toContain("report-to csp-endpoint");
+		expect(headers["Reporting-Endpoints"]).toContain('csp-endpoint="https://example.com/api/csp-report"');
+		expect(headers.NEL).toContain('"report_to":"csp-endpoint"');
+	});
+
+	test("middleware sets reporting headers and report-to on both policies", async () => {
+		const middleware = createCspMiddleware({ mode: "dual", options: { isDev: false, reporting: { endpoints } } });
+		const { headers } = await runMiddleware(middleware);
+
+		expect(headers.get("Reporting-Endpoints")).toContain("csp-endpoint=");
+		expect(headers.get("Content-Security-Policy")).toContain("report-to csp-endpoint");
+		expect(headers.get("Content-Security-Policy-Report-Only")).toContain("report-to csp-endpoint");
+	});
+});
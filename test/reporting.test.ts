@@ -0,0 +1,217 @@
+import { describe, expect, test, vi } from "vitest";
+import { type CspViolation, createCspReportHandler, parseCspReport } from "../src";
+
+const legacyReport = {
+	"csp-report": {
+		"document-uri": "https://example.com/page",
+		referrer: "https://example.com/",
+		"violated-directive": "script-src-elem",
+		"effective-directive": "script-src-elem",
+		"original-policy": "default-src 'self'; report-uri /api/csp-report",
+		disposition: "enforce",
+		"blocked-uri": "https://evil.example.net/x.js",
+		"line-number": 12,
+		"column-number": 4,
+		"source-file": "https://example.com/app.js",
+		"status-code": 200,
+		"script-sample": "",
+	},
+};
+
+const reportingApiBatch = [
+	{
+		type: "csp-violation",
+		age: 10,
+		url: "https://example.com/page",
+		user_agent: "Mozilla/5.0",
+		body: {
+			documentURL: "https://example.com/page",
+			blockedURL: "inline",
+			effectiveDirective: "style-src-elem",
+			originalPolicy: "default-src 'self'; report-to csp",
+			disposition: "report",
+			sample: "body{color:red}",
+			statusCode: 200,
+			lineNumber: 3,
+		},
+	},
+	{
+		type: "deprecation",
+		url: "https://example.com/page",
+		body: { id: "something" },
+	},
+];
+
+function post(body: unknown, contentType: string): Request {
+	return new Request("https://example.com/api/csp-report", {
+		method: "POST",
+		headers: { "content-type": contentType },
+		body: typeof body === "string" ? body : JSON.stringify(body),
+	});
+}
+
+describe("parseCspReport", () => {
+	test("normalizes legacy report-uri payloads", () => {
+		const [violation] = parseCspReport(legacyReport);
+
+		expect(violation).toEqual({
+			format: "report-uri",
+			documentURL: "https://example.com/page",
+			effectiveDirective: "script-src-elem",
+			disposition: "enforce",
+			blockedURL: "https://evil.example.net/x.js",
+			violatedDirective: "script-src-elem",
+			originalPolicy: "default-src 'self'; report-uri /api/csp-report",
+			referrer: "https://example.com/",
+			sourceFile: "https://example.com/app.js",
+			lineNumber: 12,
+			columnNumber: 4,
+			statusCode: 200,
+		});
+	});
+
+	test("normalizes Reporting API batches and skips other report types", () => {
+		const violations = parseCspReport(reportingApiBatch);
+
+		expect(violations).toHaveLength(1);
+		expect(violations[0]).toMatchObject({
+			format: "report-to",
+			documentURL: "https://example.com/page",
+			effectiveDirective: "style-src-elem",
+			disposition: "report",
+			blockedURL: "inline",
+			sample: "body{color:red}",
+			userAgent: "Mozilla/5.0",
+		});
+	});
+
+	test("derives effective directive from violated-directive for older browsers", () => {
+		const [violation] = parseCspReport({
+			"csp-report": {
+				"document-uri": "https://example.com/",
+				"violated-directive": "img-src 'self'",
+			},
+		});
+
+		expect(violation?.effectiveDirective).toBe("img-src");
+	});
+
+	test("ignores unrecognizable payloads", () => {
+		expect(parseCspReport(null)).toEqual([]);
+		expect(parseCspReport("nope")).toEqual([]);
+		expect(parseCspReport({ "csp-report": { referrer: "x" } })).toEqual([]);
+	});
+});
+
+describe("createCspReportHandler", () => {
+	test("passes legacy reports to the sink", async () => {
+		const received: CspViolation[] = [];
+		const handler = createCspReportHandler({ onViolation: (v) => void received.push(v) });
+
+		const response = await handler(post(legacyReport, "application/csp-report"));
+
+		expect(response.status).toBe(204);
+		expect(received).toHaveLength(1);
+		expect(received[0]?.format).toBe("report-uri");
+	});
+
+	test("passes Reporting API batches to the sink", async () => {
+		const onViolation = vi.fn();
+		const handler = createCspReportHandler({ onViolation });
+
+		const response = await handler(post(reportingApiBatch, "application/reports+json"));
+
+		expect(response.status).toBe(204);
+		expect(onViolation).toHaveBeenCalledTimes(1);
+		expect(onViolation.mock.calls[0]?.[0].format).toBe("report-to");
+	});
+
+	test("rejects non-POST requests", async () => {
+		const handler = createCspReportHandler({ onViolation: vi.fn() });
+		const response = await handler(new Request("https://example.com/api/csp-report"));
+
+		expect(response.status).toBe(405);
+		expect(response.headers.get("Allow")).toBe("POST");
+	});
+
+	test("rejects unsupported content types", async () => {
+		const handler = createCspReportHandler({ onViolation: vi.fn() });
+		const response = await handler(post("hello", "text/plain"));
+
+		expect(response.status).toBe(415);
+	});
+
+	test("rejects malformed JSON", async () => {
+		const handler = createCspReportHandler({ onViolation: vi.fn() });
+		const response = await handler(post("{not json", "application/csp-report"));
+
+		expect(response.status).toBe(400);
+	});
+
+	test("rejects bodies over the size limit", async () => {
+		const onViolation = vi.fn();
+		const handler = createCspReportHandler({ onViolation, maxBodySize: 16 });
+		const response = await handler(post(legacyReport, "application/csp-report"));
+
+		expect(response.status).toBe(413);
+		expect(onViolation).not.toHaveBeenCalled();
+	});
+
+	test("stops reading a chunked body once it exceeds the size limit", async () => {
+		const onViolation = vi.fn();
+		const handler = createCspReportHandler({ onViolation, maxBodySize: 1024 });
+		const chunk = new TextEncoder().encode(" ".repeat(512));
+		let pulled = 0;
+		let cancelled = false;
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				pulled++;
+				if (pulled > 64) {
+					controller.close();
+				} else {
+					controller.enqueue(chunk);
+				}
+			},
+			cancel() {
+				cancelled = true;
+			},
+		});
+		const request = new Request("https://example.com/api/csp-report", {
+			method: "POST",
+			headers: { "content-type": "application/csp-report" },
+			body,
+			duplex: "half",
+		} as RequestInit);
+
+		const response = await handler(request);
+
+		expect(response.status).toBe(413);
+		expect(cancelled).toBe(true);
+		expect(pulled).toBeLessThan(10);
+		expect(onViolation).not.toHaveBeenCalled();
+	});
+
+	test("limits the body size in bytes, not characters", async () => {
+		const onViolation = vi.fn();
+		const report = JSON.stringify({ "csp-report": { "document-uri": `https://example.com/${"é".repeat(40)}` } });
+		const handler = createCspReportHandler({ onViolation, maxBodySize: report.length });
+		const response = await handler(post(report, "application/csp-report"));
+
+		expect(response.status).toBe(413);
+	});
+
+	test("does not fail the request when the sink throws", async () => {
+		const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const handler = createCspReportHandler({
+			onViolation: () => {
+				throw new Error("sink down");
+			},
+		});
+
+		const response = await handler(post(legacyReport, "application/csp-report"));
+
+		expect(response.status).toBe(204);
+		expect(errorSpy).toHaveBeenCalled();
+		errorSpy.mockRestore();
+	});
+});
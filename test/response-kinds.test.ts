@@ -0,0 +1,63 @@
+import { describe, expect, test } from "vitest";
+import { classifyResponse, createSecureHandler } from "../src";
+
+const request = new Request("https://example.com/");
+const withType = (contentType: string) => new Response("", { headers: { "Content-Type": contentType } });
+
+describe("classifyResponse", () => {
+	test("classifies built-in content types", () => {
+		expect(classifyResponse(withType("text/html; charset=utf-8"), request)).toBe("document");
+		expect(classifyResponse(withType("image/svg+xml"), request)).toBe("document");
+		expect(classifyResponse(withType("application/json"), request)).toBe("api");
+		expect(classifyResponse(withType("application/problem+json"), request)).toBe("api");
+		expect(classifyResponse(withType("application/x-ndjson"), request)).toBe("api");
+		expect(classifyResponse(withType("text/javascript"), request)).toBe("asset");
+		expect(classifyResponse(withType("image/webp"), request)).toBe("asset");
+		expect(classifyResponse(withType("font/woff2"), request)).toBe("asset");
+	});
+
+	test("falls back to document for missing or unknown types", () => {
+		expect(classifyResponse(new Response(null), request)).toBe("document");
+		expect(classifyResponse(withType("application/pdf"), request)).toBe("document");
+		expect(classifyResponse(withType("application/pdf"), request, { fallback: "asset" })).toBe("asset");
+	});
+
+	test("checks configured patterns before built-ins", () => {
+		const options = { contentTypes: { asset: ["application/manifest+json"], api: ["text/plain"] } };
+
+		expect(classifyResponse(withType("application/manifest+json"), request, options)).toBe("asset");
+		expect(classifyResponse(withType("text/plain"), request, options)).toBe("api");
+	});
+
+	test("custom classifier runs first", () => {
+		const classify = (_response: Response, req: Request) =>
+			new URL(req.url).pathname.startsWith("/api/") ? ("api" as const) : undefined;
+
+		expect(classifyResponse(withType("text/html"), new Request("https://example.com/api/x"), { classify })).toBe("api");
+		expect(classifyResponse(withType("text/html"), request, { classify })).toBe("document");
+	});
+});
+
+describe("createSecureHandler - response kinds", () => {
+	test("trims headers on API and asset responses", async () => {
+		const secureHandler = createSecureHandler({
+			options: { isDev: false, responseKinds: true, crossOrigin: "isolated" },
+		});
+
+		const api = await secureHandler(() => Response.json({ ok: true }))(request);
+		expect(api.headers.get("Content-Security-Policy")).toBe("default-src 'none'; frame-ancestors 'none'");
+		expect(api.headers.get("Cross-Origin-Resource-Policy")).toBe("same-origin");
+		expect(api.headers.get("Cross-Origin-Embedder-Policy")).toBeNull();
+		expect(api.headers.get("X-Frame-Options")).toBeNull();
+
+		const asset = await secureHandler(() => withType("text/css"))(request);
+		expect(asset.headers.get("Content-Security-Policy")).toBeNull();
+		expect(asset.headers.get("X-Content-Type-Options")).toBe("nosniff");
+		// A configured resource policy still protects assets
+		expect(asset.headers.get("Cross-Origin-Resource-Policy")).toBe("same-origin");
+
+		const page = await secureHandler(() => withType("text/html"))(request);
+		expect(page.headers.get("Content-Security-Policy")).toContain("script-src");
+		expect(page.headers.get("Cross-Origin-Embedder-Policy")).toBe("require-corp");
+	});
+});
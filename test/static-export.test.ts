@@ -0,0 +1,82 @@
+import { describe, expect, test } from "vitest";
+import { type CspRule, exportStaticHeaders, generateStaticSecurityHeaders } from "../src";
+
+const HASH = "'sha256-qznLcsROx4GACP2dm0UCKCzCG+HiZ1guq6ZZDob/Tng='";
+const rules: CspRule[] = [
+	{ description: "api", "connect-src": "https://api.example.com" },
+	{ description: "theme", hashes: { scripts: [HASH] } },
+];
+
+describe("generateStaticSecurityHeaders", () => {
+	test("trusts scripts by 'self' and hashes only", () => {
+		const csp = generateStaticSecurityHeaders(rules)["Content-Security-Policy"];
+
+		expect(csp).toContain(`script-src 'self' ${HASH};`);
+		expect(csp).toContain(`script-src-elem 'self' ${HASH};`);
+		expect(csp).not.toContain("'unsafe-inline' 'unsafe-eval'");
+		expect(csp).not.toMatch(/script-src[^;]*'unsafe-inline'/);
+		expect(csp).not.toContain("nonce-");
+		expect(csp).toContain("connect-src 'self' https://api.example.com");
+	});
+
+	test("defaults to production and ignores a nonce", () => {
+		const headers = generateStaticSecurityHeaders([], { nonce: "bm90LXVzZWQtb24tc3RhdGljLWhvc3Rz" });
+
+		expect(headers["Content-Security-Policy"]).not.toContain("'unsafe-eval'");
+		expect(headers["x-nonce"]).toBeUndefined();
+		expect(headers["Strict-Transport-Security"]).toContain("max-age=31536000");
+	});
+});
+
+describe("exportStaticHeaders", () => {
+	test("netlify _headers", () => {
+		const output = exportStaticHeaders(rules, { format: "netlify" });
+		const lines = output.split("\n");
+
+		expect(lines[0]).toBe("/*");
+		expect(lines).toContain("  X-Frame-Options: DENY");
+		expect(output).toContain(`  Content-Security-Policy: default-src 'self';`);
+		expect(output.endsWith("\n")).toBe(true);
+	});
+
+	test("cloudflare _headers with a custom path", () => {
+		expect(exportStaticHeaders([], { format: "cloudflare", path: "/app/*" }).split("\n")[0]).toBe("/app/*");
+	});
+
+	test("vercel.json", () => {
+		const config = JSON.parse(exportStaticHeaders(rules, { format: "vercel" }));
+
+		expect(config.headers[0].source).toBe("/(.*)");
+		expect(config.headers[0].headers).toContainEqual({ key: "X-Content-Type-Options", value: "nosniff" });
+		const csp = config.headers[0].headers.find((h: { key: string }) => h.key === "Content-Security-Policy");
+		expect(csp.value).toContain(HASH);
+	});
+
+	test("nginx add_header snippet", () => {
+		const output = exportStaticHeaders(rules, { format: "nginx" });
+
+		expect(output).toContain('add_header X-Frame-Options "DENY" always;\n');
+		expect(output).toMatch(/^add_header Content-Security-Policy "default-src 'self';[^"]*" always;$/m);
+	});
+
+	test("caddy header block", () => {
+		const output = exportStaticHeaders(rules, { format: "caddy" });
+
+		expect(output.startsWith("header {\n")).toBe(true);
+		expect(output).toContain('\tX-Frame-Options "DENY"\n');
+		expect(output.endsWith("}\n")).toBe(true);
+		expect(exportStaticHeaders([], { format: "caddy", path: "/app/*" }).startsWith("header /app/* {\n")).toBe(true);
+	});
+
+	test("includes reporting and cross-origin headers", () => {
+		const output = exportStaticHeaders([], {
+			format: "netlify",
+			crossOrigin: "popup-compatible",
+			reporting: { endpoints: { csp: "https://example.com/csp" } },
+		});
+
+		expect(output).toContain("  Cross-Origin-Opener-Policy: same-origin-allow-popups");
+		expect(output).toContain('  Reporting-Endpoints: csp="https://example.com/csp"');
+		expect(output).toContain("report-to csp");
+	});
+});
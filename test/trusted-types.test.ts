@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+import {
+	buildCspHeader,
+	buildTrustedTypesRule,
+	createCspMiddleware,
+	generateSecurityHeaders,
+	registerDefaultTrustedTypesPolicy,
+} from "../src";
+import { runMiddleware } from "./helpers/middleware";
+
+describe("buildTrustedTypesRule", () => {
+	test("requires Trusted Types for scripts and allows the default policy", () => {
+		const csp = buildCspHeader([buildTrustedTypesRule()], "abc123", false);
+
+		expect(csp).toContain("require-trusted-types-for 'script'");
+		expect(csp).toContain("trusted-types default");
+		expect(csp).not.toContain("trusted-types 'self'");
+	});
+
+	test("lists policy names with 'allow-duplicates'", () => {
+		const rule = buildTrustedTypesRule({ policies: ["default", "dompurify", "dompurify"], allowDuplicates: true });
+
+		expect(rule["trusted-types"]).toEqual(["default", "dompurify", "'allow-duplicates'"]);
+	});
+
+	test("'none' allows no policies", () => {
+		expect(buildTrustedTypesRule({ policies: "none" })["trusted-types"]).toEqual(["'none'"]);
+		expect(buildTrustedTypesRule({ policies: [] })["trusted-types"]).toEqual(["'none'"]);
+	});
+
+	test("ignores invalid policy names with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(buildTrustedTypesRule({ policies: ["my policy", "app"] })["trusted-types"]).toEqual(["app"]);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('"my policy"'));
+		warn.mockRestore();
+	});
+});
+
+describe("trustedTypes option", () => {
+	test("generateSecurityHeaders enforces Trusted Types", () => {
+		const headers = generateSecurityHeaders([], { isDev: false, trustedTypes: { policies: ["default"] } });
+
+		expect(headers["Content-Security-Policy"]).toContain("require-trusted-types-for 'script'");
+		expect(headers["Content-Security-Policy-Report-Only"]).toBeUndefined();
+	});
+
+	test("reportOnlyInDev moves Trusted Types into a report-only policy in development", () => {
+		const headers = generateSecurityHeaders([{ "report-uri": "/api/csp-report" }], {
+			isDev: true,
+			trustedTypes: { reportOnlyInDev: true },
+		});
+
+		expect(headers["Content-Security-Policy"]).not.toContain("trusted-types");
+		expect(headers["Content-Security-Policy-Report-Only"]).toBe(
+			"require-trusted-types-for 'script'; trusted-types default; report-uri /api/csp-report",
+		);
+	});
+
+	test("reportOnlyInDev still enforces in production", () => {
+		const headers = generateSecurityHeaders([], { isDev: false, trustedTypes: { reportOnlyInDev: true } });
+
+		expect(headers["Content-Security-Policy"]).toContain("trusted-types default");
+	});
+
+	test("middleware appends the Trusted Types report-only policy to the report-only header", async () => {
+		const middleware = createCspMiddleware({
+			mode: "dual",
+			options: { isDev: true, trustedTypes: { reportOnlyInDev: true } },
+		});
+		const { headers } = await runMiddleware(middleware);
+
+		const policies = headers.get("Content-Security-Policy-Report-Only")?.split(", ") ?? [];
+		expect(policies).toHaveLength(2);
+		expect(policies[0]).not.toContain("trusted-types");
+		expect(policies[1]).toBe("require-trusted-types-for 'script'; trusted-types default");
+		expect(headers.get("Content-Security-Policy")).not.toContain("trusted-types");
+	});
+});
+
+describe("registerDefaultTrustedTypesPolicy", () => {
+	type PolicyRules = Record<string, (input: string) => string | null>;
+	let created: PolicyRules | undefined;
+
+	beforeEach(() => {
+		created = undefined;
+		vi.stubGlobal("location", { origin: "https://example.com", href: "https://example.com/page" });
+		vi.stubGlobal("trustedTypes", {
+			defaultPolicy: null,
+			createPolicy(name: string, rules: PolicyRules) {
+				created = rules;
+				const policy = { name, ...rules };
+				this.defaultPolicy = policy;
+				return policy;
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	test("returns undefined where Trusted Types are unsupported", () => {
+		vi.stubGlobal("trustedTypes", undefined);
+
+		expect(registerDefaultTrustedTypesPolicy()).toBeUndefined();
+	});
+
+	test("escapes HTML by default", () => {
+		registerDefaultTrustedTypesPolicy();
+
+		expect(created?.createHTML?.("<img src=x onerror=alert(1)>")).toBe("&lt;img src=x onerror=alert(1)&gt;");
+	});
+
+	test("uses a custom sanitizer when given", () => {
+		registerDefaultTrustedTypesPolicy({ sanitizeHTML: (html) => html.replace(/ onerror=[^>]+/, "") });
+
+		expect(created?.createHTML?.("<img src=x onerror=alert(1)>")).toBe("<img src=x>");
+	});
+
+	test("allows same-origin and listed script URLs only", () => {
+		registerDefaultTrustedTypesPolicy({ scriptUrlOrigins: ["https://js.stripe.com"] });
+
+		expect(created?.createScriptURL?.("/assets/app.js")).toBe("https://example.com/assets/app.js");
+		expect(created?.createScriptURL?.("https://js.stripe.com/v3")).toBe("https://js.stripe.com/v3");
+		expect(created?.createScriptURL?.("https://evil.example/x.js")).toBeNull();
+	});
+
+	test("blocks eval-like sinks by default", () => {
+		registerDefaultTrustedTypesPolicy();
+
+		expect(created?.createScript?.("alert(1)")).toBeNull();
+	});
+
+	test("returns the existing default policy on repeat calls", () => {
+		const first = registerDefaultTrustedTypesPolicy();
+
+		expect(registerDefaultTrustedTypesPolicy()).toBe(first);
+	});
+});
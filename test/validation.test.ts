@@ -0,0 +1,123 @@
+import { describe, expect, test, vi } from "vitest";
+import { buildCspHeader, type CspRule, CspValidationError, generateSecurityHeaders, validateCspRules } from "../src";
+
+describe("validateCspRules", () => {
+	test("accepts valid source expressions", () => {
+		expect(
+			validateCspRules([
+				{
+					"script-src": ["'self'", "'nonce-abc123+/='", "'sha256-AbC/+9='", "'strict-dynamic'", "https:"],
+					"connect-src": "wss://localhost:* https://*.example.com:443/api/ http://127.0.0.1:3000 cdn.example.com",
+					"img-src": "data: blob: * https://cdn.example.com/images/a%20b.png",
+					"frame-ancestors": "'self' https://partner.example.com",
+					sandbox: "allow-scripts allow-forms",
+					"report-uri": "/api/csp-report",
+					"report-to": "csp-endpoint",
+					"require-trusted-types-for": "'script'",
+					"trusted-types": "default dompurify 'allow-duplicates'",
+					"upgrade-insecure-requests": true,
+				},
+			]),
+		).toEqual([]);
+	});
+
+	test("reports common mistakes with a suggested fix", () => {
+		const issues = validateCspRules([
+			{ description: "cdn", "script-src": "self nonce-abc https//cdn.example.com 'unsafe-inlne'" },
+			{ "img-src": ["https://cdn.example.com/my image.png"], "style-src": "'Self'" },
+		]);
+
+		expect(issues.map((issue) => [issue.value, issue.suggestion])).toEqual([
+			["self", "'self'"],
+			["nonce-abc", "'nonce-abc'"],
+			["https//cdn.example.com", "https://cdn.example.com"],
+			["'unsafe-inlne'", "'unsafe-inline'"],
+			["https://cdn.example.com/my image.png", "https://cdn.example.com/my%20image.png"],
+			["'Self'", "'self'"],
+		]);
+		expect(issues[0]).toMatchObject({
+			code: "invalid-value",
+			directive: "script-src",
+			ruleIndex: 0,
+			description: "cdn",
+		});
+		expect(issues[4]).toMatchObject({ ruleIndex: 1 });
+		expect(issues[4]).not.toHaveProperty("description");
+	});
+
+	test("reports unknown directives", () => {
+		const issues = validateCspRules([{ "scirpt-src": "'self'", "Img-Src": "'self'", "plugin-types": "x" } as CspRule]);
+
+		expect(issues).toEqual([
+			{
+				code: "unknown-directive",
+				directive: "scirpt-src",
+				message: 'Unknown directive "scirpt-src"',
+				suggestion: "script-src",
+				ruleIndex: 0,
+			},
+			expect.objectContaining({ directive: "Img-Src", suggestion: "img-src" }),
+			expect.objectContaining({ directive: "plugin-types" }),
+		]);
+		expect(issues[2]).not.toHaveProperty("suggestion");
+	});
+
+	test("checks directive-specific grammars", () => {
+		const issues = validateCspRules([
+			{
+				"frame-ancestors": "'unsafe-inline'",
+				sandbox: "allow-everything",
+				"require-trusted-types-for": "script",
+				"trusted-types": "bad;name",
+				"report-to": "csp/endpoint",
+			},
+		]);
+
+		expect(issues.map((issue) => issue.directive)).toEqual([
+			"frame-ancestors",
+			"sandbox",
+			"require-trusted-types-for",
+			"trusted-types",
+			"report-to",
+		]);
+	});
+});
+
+describe("strict option", () => {
+	const rules = [{ description: "cdn", "script-src": "self https://cdn.example.com" }];
+
+	test("warns and keeps compiling by default", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(buildCspHeader(rules, "abc123", false)).toContain("self https://cdn.example.com");
+		expect(warn).toHaveBeenCalledWith(
+			`[@enalmada/start-secure] Invalid value "self" in "script-src": keywords, nonces, and hashes must be single-quoted. Did you mean "'self'"? (Rule: cdn)`,
+		);
+		warn.mockRestore();
+	});
+
+	test("throws with every issue", () => {
+		let error: unknown;
+		try {
+			generateSecurityHeaders([...rules, { "img-src": "https//images.example.com" }], { isDev: false, strict: true });
+		} catch (caught) {
+			error = caught;
+		}
+
+		expect(error).toBeInstanceOf(CspValidationError);
+		expect((error as CspValidationError).issues).toHaveLength(2);
+		expect((error as CspValidationError).message).toBe(
+			"[@enalmada/start-secure] Invalid CSP rules (2 issues):" +
+				`\n  - Invalid value "self" in "script-src": keywords, nonces, and hashes must be single-quoted. Did you mean "'self'"? (Rule: cdn)` +
+				'\n  - Invalid value "https//images.example.com" in "img-src": malformed scheme separator. Did you mean "https://images.example.com"? (Rule: rules[1])',
+		);
+	});
+
+	test("passes valid rules through unchanged", () => {
+		const valid = [{ "script-src": "https://cdn.example.com" }];
+
+		expect(generateSecurityHeaders(valid, { isDev: false, strict: true })).toEqual(
+			generateSecurityHeaders(valid, { isDev: false }),
+		);
+	});
+});
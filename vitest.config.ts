@@ -6,6 +6,8 @@ export default defineConfig({
 	test: {
 		include: ["test/**/*.test.ts", "src/**/*.test.ts"],
 		exclude: [...configDefaults.exclude],
+		// Mocks TanStack Start's response headers for the middleware tests
+		setupFiles: ["test/helpers/middleware.ts"],
 		globals: true,
 		environment: "node",
 	},